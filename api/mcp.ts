@@ -6,28 +6,95 @@
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { createHash } from "crypto";
 import { createMatterServer } from "../dist/server.js";
+import { MemoryLibraryStore } from "../dist/library-store.js";
+import { SERVERLESS_TOTAL_TIMEOUT_MS, getMatterConfig } from "../dist/config.js";
 import type { MatterTokens } from "../dist/matter-api.js";
+import {
+  getOAuthKey,
+  isReadOnlyScope,
+  openMatterTokens,
+  sealMatterTokens,
+  verifyToken,
+} from "../dist/oauth-tokens.js";
+import { getRevocationStore } from "../dist/revocation-store.js";
+import { getTokenStore } from "../dist/token-store.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 
-function getTokensFromRequest(req: VercelRequest): MatterTokens | null {
+// Library caches survive between requests while the function instance is warm
+const MAX_LIBRARY_STORES = 50;
+const libraryStores = new Map<string, MemoryLibraryStore>();
+
+// Keyed by the grant ID, which stays the same when Matter rotates the tokens
+function getLibraryStore(key: string): MemoryLibraryStore {
+  let store = libraryStores.get(key);
+  if (store) {
+    // Move to the end so the least recently used store is evicted first
+    libraryStores.delete(key);
+  } else {
+    store = new MemoryLibraryStore();
+    if (libraryStores.size >= MAX_LIBRARY_STORES) {
+      const oldestKey = libraryStores.keys().next().value;
+      if (oldestKey !== undefined) {
+        libraryStores.delete(oldestKey);
+      }
+    }
+  }
+  libraryStores.set(key, store);
+
+  return store;
+}
+
+type TokenResult =
+  // grantId is missing for tokens passed in the custom headers
+  | { status: "valid"; tokens: MatterTokens; readOnly: boolean; grantId?: string }
+  | { status: "invalid" | "expired" | "revoked" | "missing" };
+
+// Details for the WWW-Authenticate header when the request isn't authorized (RFC 6750)
+const TOKEN_ERRORS = {
+  invalid: {
+    header: 'error="invalid_token", error_description="The access token is invalid"',
+    message: "The access token is invalid. Please reconnect your Matter account.",
+  },
+  expired: {
+    header: 'error="invalid_token", error_description="The access token expired"',
+    message: "Your Matter connection has expired. Please refresh the token or reconnect.",
+  },
+  revoked: {
+    header: 'error="invalid_token", error_description="The access token was revoked"',
+    message: "Your Matter connection was disconnected. Please reconnect your Matter account.",
+  },
+  missing: {
+    header: null,
+    message: "Please connect your Matter account using the Connect button",
+  },
+};
+
+async function getTokensFromRequest(req: VercelRequest, key: Buffer): Promise<TokenResult> {
   const authHeader = req.headers.authorization;
 
   if (authHeader?.startsWith("Bearer ")) {
-    const token = authHeader.slice(7);
-
-    // Try to decode as our combined token format (base64 JSON)
-    try {
-      const decoded = JSON.parse(Buffer.from(token, "base64").toString("utf-8"));
-      if (decoded.accessToken && decoded.refreshToken) {
-        return {
-          accessToken: decoded.accessToken,
-          refreshToken: decoded.refreshToken,
-        };
-      }
-    } catch {
-      // Not our format, fall through
+    // Access tokens are encrypted, so this also rejects tampered tokens
+    const verification = verifyToken(key, "access_token", authHeader.slice(7));
+    if (verification.status !== "valid") {
+      return { status: verification.status };
+    }
+    const { grantId, scope } = verification.payload;
+    const [revoked, rotatedTokens] = await Promise.all([
+      getRevocationStore().isRevoked(grantId),
+      getTokenStore().get(grantId),
+    ]);
+    if (revoked) {
+      return { status: "revoked" };
     }
+    return {
+      status: "valid",
+      // Matter may have rotated the tokens since this access token was issued
+      tokens: (rotatedTokens && openMatterTokens(key, rotatedTokens)) || verification.tokens,
+      readOnly: isReadOnlyScope(scope),
+      grantId,
+    };
   }
 
   // Fallback: Try custom headers (for manual configuration)
@@ -35,10 +102,10 @@ function getTokensFromRequest(req: VercelRequest): MatterTokens | null {
   const refreshToken = req.headers["x-matter-refresh-token"] as string | undefined;
 
   if (accessToken && refreshToken) {
-    return { accessToken, refreshToken };
+    return { status: "valid", tokens: { accessToken, refreshToken }, readOnly: false };
   }
 
-  return null;
+  return { status: "missing" };
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -56,28 +123,67 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers for all responses
   res.setHeader("Access-Control-Allow-Origin", "*");
 
-  const tokens = getTokensFromRequest(req);
+  let key: Buffer;
+  try {
+    key = getOAuthKey();
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({
+      error: "Server Error",
+      message: "Server is not configured for OAuth",
+    });
+  }
 
-  if (!tokens) {
+  let result: TokenResult;
+  try {
+    result = await getTokensFromRequest(req, key);
+  } catch (error) {
+    console.error("Failed to look up the access token:", error);
+    return res.status(503).json({
+      error: "Service Unavailable",
+      message: "Failed to check the access token, please try again",
+    });
+  }
+
+  if (result.status !== "valid") {
     // Get base URL for the resource_metadata link
     const protocol = req.headers["x-forwarded-proto"] || "https";
     const host = req.headers["x-forwarded-host"] || req.headers.host;
     const baseUrl = `${protocol}://${host}`;
+    const resourceMetadata = `resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`;
+    const error = TOKEN_ERRORS[result.status];
 
     // Return 401 with WWW-Authenticate header pointing to OAuth metadata (RFC 9728)
     res.setHeader(
       "WWW-Authenticate",
-      `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`
+      error.header ? `Bearer ${error.header}, ${resourceMetadata}` : `Bearer ${resourceMetadata}`
     );
     res.setHeader("Access-Control-Expose-Headers", "WWW-Authenticate");
     return res.status(401).json({
       error: "Unauthorized",
-      message: "Please connect your Matter account using the Connect button",
+      message: error.message,
     });
   }
 
+  const { tokens, readOnly, grantId } = result;
+
   // Create server and transport for this request
-  const server = createMatterServer(tokens);
+  const server = createMatterServer(tokens, {
+    store: getLibraryStore(grantId ?? createHash("sha256").update(tokens.refreshToken).digest("hex")),
+    readOnly,
+    // Save the rotated tokens, since the refresh token inside the client's
+    // OAuth tokens stops working
+    onTokenRefresh: grantId
+      ? async (refreshed) => {
+          try {
+            await getTokenStore().set(grantId, sealMatterTokens(key, refreshed));
+          } catch (error) {
+            console.error("Failed to save the refreshed Matter tokens:", error);
+          }
+        }
+      : undefined,
+    config: getMatterConfig(process.env, { totalTimeoutMs: SERVERLESS_TOTAL_TIMEOUT_MS }),
+  });
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: undefined, // Stateless mode
   });
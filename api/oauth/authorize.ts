@@ -2,59 +2,145 @@
  * OAuth Authorization Endpoint
  *
  * Displays a QR code for the user to scan with the Matter app.
- * After scanning, redirects back to claude.ai with the tokens.
+ * After scanning, redirects back to claude.ai with an encrypted authorization code.
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { decodeClientId, getClientSigningKey, isRegisteredRedirectUri } from "../../dist/oauth-clients.js";
+import {
+  DEFAULT_SCOPE,
+  getOAuthKey,
+  issueAuthorizationRequest,
+  isValidCodeChallenge,
+  parseScope,
+} from "../../dist/oauth-tokens.js";
+import { HOSTED_AUTH_API_URL, getMatterConfig } from "../../dist/config.js";
+import { MatterAPIError, MatterClient } from "../../dist/matter-api.js";
+import { QrCode, renderQrAsSvg } from "../../dist/qr.js";
+import { createCspNonce, getContentSecurityPolicy, jsonForScript } from "../../dist/html.js";
 
-const MATTER_API = "https://api.getmatter.app/api/v11";
+/**
+ * Send the user back to the client with an error (RFC 6749 section 4.1.2.1).
+ * Only safe once the redirect URI has been checked against the client.
+ */
+function redirectWithError(
+  res: VercelResponse,
+  redirectUri: string,
+  state: string | undefined,
+  error: string,
+  description: string
+) {
+  const url = new URL(redirectUri);
+  url.searchParams.set("error", error);
+  url.searchParams.set("error_description", description);
+  if (state) url.searchParams.set("state", state);
+  return res.redirect(302, url.toString());
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const clientId = req.query.client_id as string;
   const redirectUri = req.query.redirect_uri as string;
   const state = req.query.state as string;
+  const responseType = req.query.response_type as string;
+  const codeChallenge = req.query.code_challenge as string;
+  const codeChallengeMethod = req.query.code_challenge_method as string;
+  const requestedScope = req.query.scope as string | undefined;
+
+  let key: Buffer;
+  let clientSigningKey: Buffer;
+  try {
+    key = getOAuthKey();
+    clientSigningKey = getClientSigningKey();
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({ error: "Server is not configured for OAuth" });
+  }
 
+  // Never redirect to a URI that wasn't registered by the client
+  if (!clientId) {
+    return res.status(400).json({ error: "Missing client_id" });
+  }
+  const client = decodeClientId(clientSigningKey, clientId);
+  if (!client) {
+    return res.status(400).json({ error: "Unknown client_id. Please register the client first." });
+  }
   if (!redirectUri) {
     return res.status(400).json({ error: "Missing redirect_uri" });
   }
+  if (!isRegisteredRedirectUri(client, redirectUri)) {
+    return res.status(400).json({ error: "redirect_uri is not registered for this client" });
+  }
+
+  if (responseType !== "code") {
+    return redirectWithError(
+      res,
+      redirectUri,
+      state,
+      "unsupported_response_type",
+      "Only response_type=code is supported"
+    );
+  }
+  if (!codeChallenge) {
+    return redirectWithError(res, redirectUri, state, "invalid_request", "PKCE code_challenge is required");
+  }
+  if ((codeChallengeMethod || "plain") !== "S256") {
+    return redirectWithError(res, redirectUri, state, "invalid_request", "code_challenge_method must be S256");
+  }
+  if (!isValidCodeChallenge(codeChallenge)) {
+    return redirectWithError(res, redirectUri, state, "invalid_request", "Invalid code_challenge");
+  }
+
+  const scopes = parseScope(requestedScope || DEFAULT_SCOPE);
+  if (!scopes) {
+    return redirectWithError(res, redirectUri, state, "invalid_scope", "Supported scopes are read and write");
+  }
+  const scope = scopes.join(" ");
 
   // Trigger QR login to get session token
-  let triggerData: Record<string, unknown>;
+  let sessionToken: string | undefined;
   try {
-    const triggerResponse = await fetch(`${MATTER_API}/qr_login/trigger/`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ client_type: "integration" }),
-    });
-
-    if (!triggerResponse.ok) {
-      const errorText = await triggerResponse.text();
+    const config = getMatterConfig(process.env, { authUrl: HOSTED_AUTH_API_URL });
+    ({ session_token: sessionToken } = await MatterClient.triggerQRLogin(config));
+  } catch (error) {
+    if (error instanceof MatterAPIError) {
       return res.status(500).json({
         error: "Failed to initiate Matter login",
-        status: triggerResponse.status,
-        details: errorText
+        status: error.status,
       });
     }
-
-    triggerData = await triggerResponse.json();
-  } catch (error) {
     return res.status(500).json({
       error: "Failed to connect to Matter API",
       details: String(error)
     });
   }
 
-  // Get session token from response
-  const sessionToken = triggerData.session_token || triggerData.sessionToken;
-
   if (!sessionToken) {
     return res.status(500).json({
       error: "Unexpected response from Matter API - no session token",
-      response: triggerData
     });
   }
 
-  // Generate QR code URL - the QR code contains just the session token
-  const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(String(sessionToken))}`;
+  // Remember what the authorization code will be issued for
+  const authorizationRequest = issueAuthorizationRequest(key, sessionToken, {
+    clientId,
+    redirectUri,
+    codeChallenge,
+    scope,
+  });
+
+  // Render the QR code ourselves, so the session token isn't sent anywhere else.
+  // The QR code contains just the session token.
+  const qrSvg = renderQrAsSvg(QrCode.encode(sessionToken));
+
+  // Only inline scripts and styles carrying this nonce may run
+  const nonce = createCspNonce();
+
+  // Passed to the script as JSON data rather than interpolated into code
+  const params = jsonForScript({
+    authorizationRequest,
+    redirectUri,
+    state: state || "",
+  });
 
   // Return HTML page with QR code that polls for completion
   const html = `<!DOCTYPE html>
@@ -63,7 +149,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Connect to Matter</title>
-  <style>
+  <style nonce="${nonce}">
     * { box-sizing: border-box; }
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
@@ -92,7 +178,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       display: inline-block;
       margin-bottom: 1.5rem;
     }
-    .qr-container img {
+    .qr-container svg {
       display: block;
       width: 200px;
       height: 200px;
@@ -123,8 +209,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   <div class="container">
     <h1>Connect to Matter</h1>
     <p>Scan this QR code with the Matter app on your phone</p>
+    <p>${scopes.includes("write") ? "The app will be able to read and change your library." : "The app will only be able to read your library."}</p>
     <div class="qr-container">
-      <img src="${qrCodeUrl}" alt="QR Code" />
+      <div role="img" aria-label="QR Code">${qrSvg}</div>
     </div>
     <div class="status" id="status">
       <span class="spinner"></span>
@@ -132,10 +219,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     </div>
   </div>
 
-  <script>
-    const sessionToken = ${JSON.stringify(sessionToken)};
-    const redirectUri = ${JSON.stringify(redirectUri)};
-    const state = ${JSON.stringify(state || "")};
+  <script type="application/json" id="params">${params}</script>
+  <script nonce="${nonce}">
+    const { authorizationRequest, redirectUri, state } = JSON.parse(
+      document.getElementById('params').textContent
+    );
 
     async function pollForTokens() {
       const statusEl = document.getElementById('status');
@@ -145,23 +233,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           const response = await fetch('/api/oauth/exchange', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ session_token: sessionToken })
+            body: JSON.stringify({ authorization_request: authorizationRequest })
           });
 
           if (response.ok) {
             const data = await response.json();
-            const accessToken = data.access_token || data.accessToken;
-            const refreshToken = data.refresh_token || data.refreshToken;
 
-            if (accessToken && refreshToken) {
+            if (data.code) {
               statusEl.innerHTML = '✓ Connected! Redirecting...';
               statusEl.className = 'status success';
 
-              // Encode tokens as the authorization code
-              const code = btoa(JSON.stringify({
-                access_token: accessToken,
-                refresh_token: refreshToken
-              }));
+              // The authorization code is encrypted by the server
+              const code = data.code;
 
               // Redirect back to claude.ai
               const url = new URL(redirectUri);
@@ -188,6 +271,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 </body>
 </html>`;
 
-  res.setHeader("Content-Type", "text/html");
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Content-Security-Policy", getContentSecurityPolicy(nonce));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Referrer-Policy", "no-referrer");
+  // The page embeds a live login session, so it must not be cached
+  res.setHeader("Cache-Control", "no-store");
   return res.status(200).send(html);
 }
@@ -2,11 +2,18 @@
  * QR Login Exchange Proxy
  *
  * Proxies the QR login exchange request to Matter API to avoid CORS issues.
+ * Once the QR code has been scanned, the Matter tokens are returned as an
+ * encrypted authorization code, so they never reach the browser.
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-
-const MATTER_API = "https://api.getmatter.app/api/v11";
+import { HOSTED_AUTH_API_URL, getMatterConfig } from "../../dist/config.js";
+import { MatterAPIError, MatterClient } from "../../dist/matter-api.js";
+import {
+  getOAuthKey,
+  issueAuthorizationCode,
+  verifyAuthorizationRequest,
+} from "../../dist/oauth-tokens.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
@@ -21,22 +28,45 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { session_token } = req.body || {};
+  const { authorization_request } = req.body || {};
 
-  if (!session_token) {
-    return res.status(400).json({ error: "Missing session_token" });
+  if (!authorization_request) {
+    return res.status(400).json({ error: "Missing authorization_request" });
   }
 
+  let key: Buffer;
   try {
-    const response = await fetch(`${MATTER_API}/qr_login/exchange/`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ session_token }),
-    });
+    key = getOAuthKey();
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({ error: "Server is not configured for OAuth" });
+  }
+
+  // Issued by the authorize endpoint after checking the client and redirect URI
+  const request = verifyAuthorizationRequest(key, String(authorization_request));
+  if (!request) {
+    return res.status(400).json({ error: "Invalid or expired authorization request" });
+  }
+
+  try {
+    const { access_token: accessToken, refresh_token: refreshToken } = await MatterClient.exchangeQRToken(
+      request.sessionToken,
+      getMatterConfig(process.env, { authUrl: HOSTED_AUTH_API_URL })
+    );
 
-    const data = await response.json();
-    return res.status(response.status).json(data);
+    if (!accessToken || !refreshToken) {
+      // Not scanned yet
+      return res.status(202).json({ error: "authorization_pending" });
+    }
+
+    return res.status(200).json({
+      code: issueAuthorizationCode(key, { accessToken, refreshToken }, request.binding),
+    });
   } catch (error) {
+    if (error instanceof MatterAPIError) {
+      // Matter also responds with an error while the QR code hasn't been scanned
+      return res.status(error.status).json({ error: "authorization_pending" });
+    }
     return res.status(500).json({
       error: "Failed to exchange token",
       details: String(error),
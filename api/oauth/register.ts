@@ -2,10 +2,16 @@
  * OAuth 2.0 Dynamic Client Registration (RFC 7591)
  *
  * Claude.ai may use this to dynamically register as an OAuth client.
+ * The registration is signed into the client ID, so nothing is stored.
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { randomUUID } from "crypto";
+import {
+  encodeClientId,
+  getClientSigningKey,
+  validateClientRegistration,
+  type OAuthClient,
+} from "../../dist/oauth-clients.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
@@ -20,18 +26,55 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  // Accept any client registration request
+  let key: Buffer;
+  try {
+    key = getClientSigningKey();
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({
+      error: "server_error",
+      error_description: "Server is not configured for OAuth",
+    });
+  }
+
   const body = req.body || {};
+  const redirectUris: unknown = body.redirect_uris;
+  const clientName: unknown = body.client_name;
+
+  if (!Array.isArray(redirectUris) || !redirectUris.every((uri) => typeof uri === "string")) {
+    return res.status(400).json({
+      error: "invalid_redirect_uri",
+      error_description: "redirect_uris must be a list of URIs",
+    });
+  }
+  if (clientName !== undefined && typeof clientName !== "string") {
+    return res.status(400).json({
+      error: "invalid_client_metadata",
+      error_description: "client_name must be a string",
+    });
+  }
+
+  const error = validateClientRegistration({ clientName, redirectUris });
+  if (error) {
+    return res.status(400).json({
+      error: error.error,
+      error_description: error.description,
+    });
+  }
 
-  // Generate a client ID (we don't actually need to track clients since we're stateless)
-  const clientId = randomUUID();
+  const client: OAuthClient = {
+    clientName,
+    redirectUris,
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
 
   // Return the registered client info
   return res.status(201).json({
-    client_id: clientId,
-    client_name: body.client_name || "MCP Client",
-    redirect_uris: body.redirect_uris || [],
-    grant_types: ["authorization_code"],
+    client_id: encodeClientId(key, client),
+    client_id_issued_at: client.issuedAt,
+    client_name: clientName || "MCP Client",
+    redirect_uris: redirectUris,
+    grant_types: ["authorization_code", "refresh_token"],
     response_types: ["code"],
     token_endpoint_auth_method: "none",
   });
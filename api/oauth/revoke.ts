@@ -0,0 +1,105 @@
+/**
+ * OAuth Token Revocation Endpoint (RFC 7009)
+ *
+ * Revokes an access or refresh token, along with every other token issued
+ * from the same authorization, and invalidates the Matter refresh token
+ * inside it.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { MatterClient } from "../../dist/matter-api.js";
+import {
+  getOAuthKey,
+  openMatterTokens,
+  verifyToken,
+  type OAuthTokenVerification,
+} from "../../dist/oauth-tokens.js";
+import { getRevocationStore } from "../../dist/revocation-store.js";
+import { getTokenStore } from "../../dist/token-store.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    return res.status(204).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  let key: Buffer;
+  try {
+    key = getOAuthKey();
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({
+      error: "server_error",
+      error_description: "Server is not configured for OAuth",
+    });
+  }
+
+  // Parse request body (could be JSON or form-urlencoded)
+  const body: Record<string, unknown> =
+    typeof req.body === "string" ? Object.fromEntries(new URLSearchParams(req.body)) : req.body || {};
+  const token = typeof body.token === "string" ? body.token : undefined;
+  const clientId = typeof body.client_id === "string" ? body.client_id : undefined;
+
+  if (!token) {
+    return res.status(400).json({
+      error: "invalid_request",
+      error_description: "Missing token parameter",
+    });
+  }
+
+  // The hint only decides which token type is tried first
+  const types: Array<"access_token" | "refresh_token"> =
+    body.token_type_hint === "refresh_token" ? ["refresh_token", "access_token"] : ["access_token", "refresh_token"];
+  let verification: OAuthTokenVerification = { status: "invalid" };
+  for (const type of types) {
+    verification = verifyToken(key, type, token);
+    if (verification.status !== "invalid") {
+      break;
+    }
+  }
+
+  // Invalid and expired tokens need no revoking, and the response must not
+  // reveal which tokens exist (RFC 7009 section 2.2)
+  if (verification.status !== "valid") {
+    return res.status(200).end();
+  }
+
+  // Holding the token is enough to revoke it, but a client may only revoke
+  // its own tokens
+  if (clientId && clientId !== verification.payload.clientId) {
+    return res.status(400).json({
+      error: "invalid_request",
+      error_description: "The token was not issued to this client",
+    });
+  }
+
+  try {
+    await getRevocationStore().revoke(verification.payload.grantId, null);
+  } catch (error) {
+    console.error("Failed to record the revocation:", error);
+    return res.status(503).json({
+      error: "temporarily_unavailable",
+      error_description: "Failed to revoke the token, please try again",
+    });
+  }
+
+  // Best effort: the revocation above already takes effect on this server.
+  // Matter may have rotated the tokens since this one was issued.
+  try {
+    const rotatedTokens = await getTokenStore().get(verification.payload.grantId);
+    const refreshToken =
+      (rotatedTokens && openMatterTokens(key, rotatedTokens)?.refreshToken) || verification.tokens.refreshToken;
+    await MatterClient.invalidateRefreshToken(refreshToken);
+  } catch (error) {
+    console.error("Failed to invalidate the Matter refresh token:", error);
+  }
+
+  return res.status(200).end();
+}
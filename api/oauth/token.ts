@@ -1,11 +1,66 @@
 /**
  * OAuth Token Endpoint
  *
- * Exchanges the authorization code for access tokens.
- * The code contains the Matter tokens encoded as base64 JSON.
+ * Exchanges the authorization code for access tokens, and refreshes them
+ * with the refresh_token grant.
+ * Codes and tokens are encrypted with the server-side secret and contain the
+ * Matter tokens.
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { MatterClient, type MatterTokens } from "../../dist/matter-api.js";
+import {
+  getOAuthKey,
+  issueAccessToken,
+  issueRefreshToken,
+  openMatterTokens,
+  parseScope,
+  sealMatterTokens,
+  verifyCodeVerifier,
+  verifyToken,
+  type OAuthGrant,
+} from "../../dist/oauth-tokens.js";
+import { getRevocationStore } from "../../dist/revocation-store.js";
+import { getTokenStore } from "../../dist/token-store.js";
+
+// Authorization codes that have already been exchanged, with their expiry.
+// This only covers the current function instance, but codes are short-lived,
+// so the window for replaying one elsewhere is small.
+const usedCodes = new Map<string, number>();
+
+/**
+ * Record that a code has been used. Returns false if it was used before.
+ */
+function markCodeUsed(jti: string, expiresAt: number): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  for (const [usedJti, usedExpiresAt] of usedCodes) {
+    if (usedExpiresAt <= now) {
+      usedCodes.delete(usedJti);
+    }
+  }
+
+  if (usedCodes.has(jti)) {
+    return false;
+  }
+  usedCodes.set(jti, expiresAt);
+  return true;
+}
+
+function sendTokens(res: VercelResponse, key: Buffer, tokens: MatterTokens, grant: OAuthGrant) {
+  const { token, expiresAt } = issueAccessToken(key, tokens, grant);
+
+  // Token responses must never be cached (RFC 6749 section 5.1)
+  res.setHeader("Cache-Control", "no-store");
+  res.setHeader("Pragma", "no-cache");
+
+  return res.status(200).json({
+    access_token: token,
+    token_type: "Bearer",
+    expires_in: Math.max(0, expiresAt - Math.floor(Date.now() / 1000)),
+    refresh_token: issueRefreshToken(key, tokens, grant),
+    scope: grant.scope,
+  });
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Handle CORS
@@ -21,51 +76,161 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  // Parse request body (could be JSON or form-urlencoded)
-  let code: string | undefined;
-  let grantType: string | undefined;
-
-  if (typeof req.body === "string") {
-    const params = new URLSearchParams(req.body);
-    code = params.get("code") || undefined;
-    grantType = params.get("grant_type") || undefined;
-  } else if (req.body) {
-    code = req.body.code;
-    grantType = req.body.grant_type;
+  let key: Buffer;
+  try {
+    key = getOAuthKey();
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({
+      error: "server_error",
+      error_description: "Server is not configured for OAuth",
+    });
   }
 
-  if (!code) {
+  // Parse request body (could be JSON or form-urlencoded)
+  const body: Record<string, unknown> =
+    typeof req.body === "string" ? Object.fromEntries(new URLSearchParams(req.body)) : req.body || {};
+  const param = (name: string): string | undefined => {
+    const value = body[name];
+    return typeof value === "string" && value ? value : undefined;
+  };
+
+  const grantType = param("grant_type");
+  const clientId = param("client_id");
+
+  // Clients are public, so they identify themselves with just the client ID
+  if (!clientId) {
     return res.status(400).json({
       error: "invalid_request",
-      error_description: "Missing code parameter",
+      error_description: "Missing client_id parameter",
     });
   }
 
-  try {
-    // Decode the authorization code (base64 JSON with tokens)
-    const decoded = JSON.parse(Buffer.from(code, "base64").toString("utf-8"));
-    const { access_token, refresh_token } = decoded;
+  if (grantType === "refresh_token") {
+    const refreshToken = param("refresh_token");
+    if (!refreshToken) {
+      return res.status(400).json({
+        error: "invalid_request",
+        error_description: "Missing refresh_token parameter",
+      });
+    }
+
+    const verification = verifyToken(key, "refresh_token", refreshToken);
+    if (verification.status !== "valid" || verification.payload.clientId !== clientId) {
+      return res.status(400).json({
+        error: "invalid_grant",
+        error_description: "Invalid or expired refresh token",
+      });
+    }
+
+    const { grantId } = verification.payload;
+    let revoked: boolean;
+    let rotatedTokens: string | null;
+    try {
+      [revoked, rotatedTokens] = await Promise.all([
+        getRevocationStore().isRevoked(grantId),
+        getTokenStore().get(grantId),
+      ]);
+    } catch (error) {
+      console.error("Failed to look up the refresh token:", error);
+      return res.status(503).json({
+        error: "temporarily_unavailable",
+        error_description: "Failed to check the refresh token, please try again",
+      });
+    }
+    if (revoked) {
+      return res.status(400).json({
+        error: "invalid_grant",
+        error_description: "The refresh token was revoked",
+      });
+    }
+
+    // The client may ask for fewer scopes than it was granted (RFC 6749 section 6)
+    const granted = verification.payload.scope.split(" ");
+    const requestedScope = param("scope");
+    const requested = requestedScope ? parseScope(requestedScope) : granted;
+    if (!requested || !requested.every((scope) => granted.includes(scope))) {
+      return res.status(400).json({
+        error: "invalid_scope",
+        error_description: `The requested scope exceeds the granted scope: ${verification.payload.scope}`,
+      });
+    }
+
+    // The MCP endpoint may have rotated the Matter tokens since this refresh
+    // token was issued
+    const matterRefreshToken =
+      (rotatedTokens && openMatterTokens(key, rotatedTokens)?.refreshToken) || verification.tokens.refreshToken;
+
+    let tokens: MatterTokens;
+    try {
+      tokens = await MatterClient.refreshTokens(matterRefreshToken);
+    } catch {
+      return res.status(400).json({
+        error: "invalid_grant",
+        error_description: "Invalid or expired refresh token",
+      });
+    }
 
-    if (!access_token || !refresh_token) {
-      throw new Error("Invalid token structure");
+    // Older access tokens of the grant still carry the previous pair
+    try {
+      await getTokenStore().set(grantId, sealMatterTokens(key, tokens));
+    } catch (error) {
+      console.error("Failed to save the refreshed Matter tokens:", error);
     }
 
-    // Return tokens in OAuth format
-    // We encode both tokens into the access_token so the MCP endpoint can use them
-    const combinedToken = Buffer.from(
-      JSON.stringify({ accessToken: access_token, refreshToken: refresh_token })
-    ).toString("base64");
-
-    return res.status(200).json({
-      access_token: combinedToken,
-      token_type: "Bearer",
-      // Include refresh_token for completeness
-      refresh_token: refresh_token,
+    return sendTokens(res, key, tokens, {
+      grantId,
+      clientId,
+      scope: requested.join(" "),
     });
-  } catch (error) {
+  }
+
+  // Older clients may leave out the grant type for the authorization code grant
+  if (grantType !== undefined && grantType !== "authorization_code") {
+    return res.status(400).json({
+      error: "unsupported_grant_type",
+      error_description: `Unsupported grant_type: ${grantType}`,
+    });
+  }
+
+  const code = param("code");
+  const redirectUri = param("redirect_uri");
+  const codeVerifier = param("code_verifier");
+
+  if (!code || !redirectUri || !codeVerifier) {
+    return res.status(400).json({
+      error: "invalid_request",
+      error_description: "Missing code, redirect_uri or code_verifier parameter",
+    });
+  }
+
+  const verification = verifyToken(key, "authorization_code", code);
+  if (verification.status !== "valid" || !verification.payload.binding) {
     return res.status(400).json({
       error: "invalid_grant",
       error_description: "Invalid or expired authorization code",
     });
   }
+
+  // The code must be redeemed by whoever started the authorization (RFC 7636)
+  const { binding } = verification.payload;
+  if (
+    binding.clientId !== clientId ||
+    binding.redirectUri !== redirectUri ||
+    !verifyCodeVerifier(binding.codeChallenge, codeVerifier)
+  ) {
+    return res.status(400).json({
+      error: "invalid_grant",
+      error_description: "The client_id, redirect_uri or code_verifier doesn't match the authorization request",
+    });
+  }
+
+  if (!markCodeUsed(verification.payload.jti, verification.payload.exp ?? 0)) {
+    return res.status(400).json({
+      error: "invalid_grant",
+      error_description: "The authorization code was already used",
+    });
+  }
+
+  return sendTokens(res, key, verification.tokens, verification.payload);
 }
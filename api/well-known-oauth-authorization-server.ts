@@ -5,6 +5,7 @@
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { OAUTH_SCOPES } from "../dist/oauth-tokens.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Get the base URL from the request
@@ -20,10 +21,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     authorization_endpoint: `${baseUrl}/api/oauth/authorize`,
     token_endpoint: `${baseUrl}/api/oauth/token`,
     registration_endpoint: `${baseUrl}/api/oauth/register`,
+    revocation_endpoint: `${baseUrl}/api/oauth/revoke`,
+    revocation_endpoint_auth_methods_supported: ["none"],
     response_types_supported: ["code"],
-    grant_types_supported: ["authorization_code"],
-    code_challenge_methods_supported: ["S256", "plain"],
-    token_endpoint_auth_methods_supported: ["none", "client_secret_post"],
-    scopes_supported: ["read", "write"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: ["none"],
+    scopes_supported: OAUTH_SCOPES,
   });
 }
@@ -5,6 +5,7 @@
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { OAUTH_SCOPES } from "../dist/oauth-tokens.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Get the base URL from the request
@@ -19,6 +20,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     resource: `${baseUrl}/api/mcp`,
     authorization_servers: [`${baseUrl}`],
     bearer_methods_supported: ["header"],
-    scopes_supported: ["read", "write"],
+    scopes_supported: OAUTH_SCOPES,
   });
 }
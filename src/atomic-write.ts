@@ -0,0 +1,21 @@
+/**
+ * Atomic file writes
+ *
+ * Writes go through a temporary file in the same directory followed by a
+ * rename, so readers never see a half-written file, even after a crash.
+ */
+
+import { mkdir, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export async function writeFileAtomic(path: string, data: string, mode = 0o600): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await writeFile(tempPath, data, { encoding: "utf-8", mode });
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Article chunks
+ *
+ * Long articles don't fit in a single tool response, so their Markdown is
+ * split into numbered parts of at most a given number of characters. Parts
+ * end right before a heading where possible, and otherwise at a paragraph,
+ * line or word break. Headings also make up the table of contents, which
+ * tells the model which part to ask for.
+ */
+
+import { ValidationError } from "./errors.js";
+
+export const DEFAULT_CHUNK_CHARS = 20000;
+export const MIN_CHUNK_CHARS = 1000;
+export const MAX_CHUNK_CHARS = 100000;
+
+// A break earlier than this fraction of the budget would make for a
+// needlessly short part, so the next kind of break is tried instead
+const MIN_BREAK_FRACTION = 0.25;
+
+export interface Heading {
+  level: number;
+  title: string;
+  // Character offset of the heading line in the Markdown
+  offset: number;
+}
+
+export interface Chunk {
+  // 1-based
+  part: number;
+  start: number;
+  end: number;
+}
+
+export interface TableOfContentsEntry {
+  level: number;
+  title: string;
+  // Part the heading is in
+  part: number;
+}
+
+// One part of an article's body, ready to return
+export interface ArticlePart extends Chunk {
+  totalParts: number;
+  // Length of the whole body
+  length: number;
+  text: string;
+  // Cursor for the next part, if there is one
+  nextCursor: string | null;
+}
+
+export interface ArticleCursor {
+  contentId: number;
+  part: number;
+  maxChars: number;
+}
+
+/**
+ * Strip inline formatting from a heading, so the table of contents reads as
+ * plain text
+ */
+function plainHeading(text: string): string {
+  return text
+    .replace(/\s+#+\s*$/, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]+/g, "")
+    .trim();
+}
+
+/**
+ * Find the ATX headings (`# Title`) in Markdown, skipping fenced code blocks
+ */
+export function getHeadings(markdown: string): Heading[] {
+  const headings: Heading[] = [];
+  let inFence = false;
+  let offset = 0;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s{0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = /^\s{0,3}(#{1,6})\s+(.+)$/.exec(line);
+      const title = match ? plainHeading(match[2]) : "";
+      if (match && title) {
+        headings.push({ level: match[1].length, title, offset });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+/**
+ * Where the part starting at `start` should end
+ */
+function findBreak(markdown: string, start: number, maxChars: number, headings: Heading[]): number {
+  const limit = start + maxChars;
+  if (limit >= markdown.length) {
+    return markdown.length;
+  }
+
+  const earliest = start + Math.floor(maxChars * MIN_BREAK_FRACTION);
+  const heading = headings.filter((h) => h.offset > earliest && h.offset <= limit).pop();
+  if (heading) {
+    return heading.offset;
+  }
+
+  const window = markdown.slice(0, limit);
+  for (const separator of ["\n\n", "\n", " "]) {
+    const index = window.lastIndexOf(separator);
+    if (index > earliest) {
+      return index + separator.length;
+    }
+  }
+  return limit;
+}
+
+/**
+ * Split Markdown into parts of at most `maxChars` characters
+ */
+export function splitIntoChunks(
+  markdown: string,
+  maxChars: number = DEFAULT_CHUNK_CHARS,
+  headings: Heading[] = getHeadings(markdown)
+): Chunk[] {
+  const chunks: Chunk[] = [];
+  let start = 0;
+  while (start < markdown.length) {
+    const end = findBreak(markdown, start, maxChars, headings);
+    chunks.push({ part: chunks.length + 1, start, end });
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * List the headings along with the part each of them is in
+ */
+export function getTableOfContents(headings: Heading[], chunks: Chunk[]): TableOfContentsEntry[] {
+  return headings.map((heading) => ({
+    level: heading.level,
+    title: heading.title,
+    part: chunks.find((chunk) => heading.offset < chunk.end)?.part ?? chunks.length,
+  }));
+}
+
+/**
+ * Pick one part of an article's body, split with `article.maxChars`
+ */
+export function getArticlePart(
+  markdown: string,
+  chunks: Chunk[],
+  part: number,
+  article: { contentId: number; maxChars: number }
+): ArticlePart {
+  const chunk = chunks[part - 1];
+  if (!chunk) {
+    const message = `Must be between 1 and ${chunks.length}, the number of parts`;
+    throw new ValidationError(`Invalid part: ${message}`, [{ field: "part", message }]);
+  }
+
+  return {
+    ...chunk,
+    totalParts: chunks.length,
+    length: markdown.length,
+    text: markdown.slice(chunk.start, chunk.end).trim(),
+    nextCursor: part < chunks.length ? encodeArticleCursor({ ...article, part: part + 1 }) : null,
+  };
+}
+
+/**
+ * Encode where to continue reading an article as an opaque cursor string
+ */
+export function encodeArticleCursor(cursor: ArticleCursor): string {
+  const payload = { a: cursor.contentId, p: cursor.part, m: cursor.maxChars };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeArticleCursor(cursor: string): ArticleCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    const valid = Number.isInteger(decoded.a) && Number.isInteger(decoded.p) && Number.isInteger(decoded.m);
+    if (valid && decoded.p >= 1 && decoded.m >= MIN_CHUNK_CHARS && decoded.m <= MAX_CHUNK_CHARS) {
+      return { contentId: decoded.a, part: decoded.p, maxChars: decoded.m };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ValidationError("Invalid cursor", [
+    { field: "cursor", message: "Not a cursor returned by matter_get_article" },
+  ]);
+}
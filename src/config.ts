@@ -0,0 +1,109 @@
+/**
+ * Matter API Configuration
+ *
+ * Where the Matter API lives and how patiently to talk to it. Every request
+ * to Matter, from both the MCP server and the OAuth endpoints, goes through
+ * these URLs, so the whole server can be pointed at a local stand-in for
+ * testing.
+ */
+
+// Environment variables that override the defaults
+export const ENV_API_BASE_URL = "MATTER_API_BASE_URL";
+export const ENV_API_VERSION = "MATTER_API_VERSION";
+export const ENV_AUTH_API_URL = "MATTER_AUTH_API_URL";
+export const ENV_WEB_BASE_URL = "MATTER_WEB_BASE_URL";
+export const ENV_REQUEST_TIMEOUT_MS = "MATTER_REQUEST_TIMEOUT_MS";
+export const ENV_MAX_RETRIES = "MATTER_MAX_RETRIES";
+export const ENV_TOTAL_TIMEOUT_MS = "MATTER_TOTAL_TIMEOUT_MS";
+export const ENV_STRICT_SCHEMAS = "MATTER_STRICT_SCHEMAS";
+
+const DEFAULT_API_BASE_URL = "https://api.getmatter.com";
+const DEFAULT_API_VERSION = "v20";
+const DEFAULT_WEB_BASE_URL = "https://web.getmatter.com";
+const DEFAULT_REQUEST_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+// A local server can take as long as a first sync of a large library needs
+const DEFAULT_TOTAL_TIMEOUT_MS = 0;
+
+// The hosted OAuth endpoints have always started and completed the QR login
+// on this host and API version, separately from the rest of the API
+export const HOSTED_AUTH_API_URL = "https://api.getmatter.app/api/v11";
+
+// Leaves time to report the error before the 60s limit of a Vercel function
+// runs out, however many attempts and pages a tool call needs
+export const SERVERLESS_TOTAL_TIMEOUT_MS = 45 * 1000;
+
+export interface MatterConfig {
+  // Base URL of the versioned API, e.g. https://api.getmatter.com/api/v20
+  apiUrl: string;
+  // Base URL of the versioned API for the QR login (default: apiUrl)
+  authUrl: string;
+  // Base URL of the web app, which hosts the endpoint for saving articles
+  webUrl: string;
+  // How long to wait for each response before giving up on the attempt
+  requestTimeoutMs: number;
+  // How often to retry timed out, rate-limited and failed requests
+  maxRetries: number;
+  // How long all requests for one tool call may take together, including
+  // retries and every page of the library
+  totalTimeoutMs: number;
+  // Fail requests whose response doesn't match the expected shape, instead
+  // of filling in what's missing
+  strictSchemas: boolean;
+}
+
+function parseBaseUrl(name: string, value: string): string {
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`${name} must be a URL, got: ${value}`);
+  }
+  return value.replace(/\/+$/, "");
+}
+
+function parseNonNegativeInteger(name: string, value: string | undefined, defaultValue: number): number {
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a whole number, got: ${value}`);
+  }
+  return parsed;
+}
+
+function parseBoolean(value: string | undefined): boolean {
+  return value !== undefined && ["1", "true", "yes"].includes(value.toLowerCase());
+}
+
+/**
+ * Read the configuration from the environment, falling back to the
+ * production Matter API and to `defaults` for the deployment
+ */
+export function getMatterConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  defaults: { authUrl?: string; totalTimeoutMs?: number } = {}
+): MatterConfig {
+  const apiBaseUrl = parseBaseUrl(ENV_API_BASE_URL, env[ENV_API_BASE_URL] || DEFAULT_API_BASE_URL);
+  const apiVersion = env[ENV_API_VERSION] || DEFAULT_API_VERSION;
+  const apiUrl = `${apiBaseUrl}/api/${apiVersion}`;
+  const webBaseUrl = parseBaseUrl(ENV_WEB_BASE_URL, env[ENV_WEB_BASE_URL] || DEFAULT_WEB_BASE_URL);
+
+  return {
+    apiUrl,
+    authUrl: parseBaseUrl(ENV_AUTH_API_URL, env[ENV_AUTH_API_URL] || defaults.authUrl || apiUrl),
+    webUrl: webBaseUrl,
+    requestTimeoutMs: parseNonNegativeInteger(
+      ENV_REQUEST_TIMEOUT_MS,
+      env[ENV_REQUEST_TIMEOUT_MS],
+      DEFAULT_REQUEST_TIMEOUT_MS
+    ),
+    maxRetries: parseNonNegativeInteger(ENV_MAX_RETRIES, env[ENV_MAX_RETRIES], DEFAULT_MAX_RETRIES),
+    totalTimeoutMs: parseNonNegativeInteger(
+      ENV_TOTAL_TIMEOUT_MS,
+      env[ENV_TOTAL_TIMEOUT_MS],
+      defaults.totalTimeoutMs ?? DEFAULT_TOTAL_TIMEOUT_MS
+    ),
+    strictSchemas: parseBoolean(env[ENV_STRICT_SCHEMAS]),
+  };
+}
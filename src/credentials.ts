@@ -0,0 +1,85 @@
+/**
+ * Credentials Store
+ *
+ * Persists Matter tokens for stdio mode, so that refresh tokens rotated by
+ * MatterClient survive a restart of the server.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile, rm } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic-write.js";
+import type { MatterTokens } from "./matter-api.js";
+
+export function getDefaultCredentialsPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "getmatter-mcp", "credentials.json");
+}
+
+export interface SavedCredentials extends MatterTokens {
+  // Hash of the refresh token from the environment that these tokens were
+  // refreshed from, if they didn't come from logging in
+  envRefreshTokenHash?: string;
+}
+
+/**
+ * Identify a token without storing it
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export class CredentialsStore {
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string = getDefaultCredentialsPath()) {}
+
+  async load(): Promise<SavedCredentials | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(raw);
+    if (typeof data.accessToken !== "string" || typeof data.refreshToken !== "string") {
+      throw new Error(`Invalid credentials file: ${this.path}`);
+    }
+    return {
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      envRefreshTokenHash: typeof data.envRefreshTokenHash === "string" ? data.envRefreshTokenHash : undefined,
+    };
+  }
+
+  /**
+   * Write the tokens, readable only by the current user. Saves are queued so
+   * that concurrent refreshes can't finish out of order.
+   */
+  save(tokens: MatterTokens, envRefreshTokenHash?: string): Promise<void> {
+    const data = JSON.stringify(
+      { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken, envRefreshTokenHash },
+      null,
+      2
+    );
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(() => writeFileAtomic(this.path, data, 0o600));
+    return this.pendingSave;
+  }
+
+  /**
+   * Delete the saved tokens. Returns false if there were none.
+   */
+  async clear(): Promise<boolean> {
+    await this.pendingSave.catch(() => undefined);
+    const existed = (await this.load().catch(() => true)) !== null;
+    await rm(this.path, { force: true });
+    return existed;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Errors
+ *
+ * What can go wrong while serving a request, split by what the user or the
+ * model can do about it. Every error carries a stable `code`, which tool
+ * results report alongside the message so clients don't have to parse it.
+ */
+
+import type { ZodError } from "zod";
+
+export type MatterErrorCode =
+  | "auth_required"
+  | "not_found"
+  | "rate_limited"
+  | "invalid_arguments"
+  | "read_only"
+  | "unknown_tool"
+  | "upstream_error"
+  | "unexpected_response"
+  | "network_error"
+  | "timeout";
+
+// Problem with one field of a tool's arguments or of a Matter response; field
+// is omitted when the value as a whole is invalid, e.g. when neither of two
+// alternative arguments was given
+export interface ValidationIssue {
+  field?: string;
+  message: string;
+}
+
+/**
+ * The Matter API responded with an error
+ */
+export class MatterAPIError extends Error {
+  code: MatterErrorCode = "upstream_error";
+
+  constructor(
+    message: string,
+    public status: number,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = "MatterAPIError";
+  }
+}
+
+/**
+ * Matter rejected the login and it could not be refreshed, so the user has
+ * to connect their account again
+ */
+export class MatterAuthError extends MatterAPIError {
+  code: MatterErrorCode = "auth_required";
+
+  constructor(message: string, status = 401, response?: unknown) {
+    super(message, status, response);
+    this.name = "MatterAuthError";
+  }
+}
+
+/**
+ * The article, highlight or other item doesn't exist
+ */
+export class MatterNotFoundError extends MatterAPIError {
+  code: MatterErrorCode = "not_found";
+
+  constructor(message: string, response?: unknown) {
+    super(message, 404, response);
+    this.name = "MatterNotFoundError";
+  }
+}
+
+/**
+ * Matter is rate limiting requests and retrying didn't help
+ */
+export class MatterRateLimitError extends MatterAPIError {
+  code: MatterErrorCode = "rate_limited";
+
+  constructor(
+    message: string,
+    // How long Matter asked to wait, if it said
+    public retryAfterMs?: number,
+    response?: unknown
+  ) {
+    super(message, 429, response);
+    this.name = "MatterRateLimitError";
+  }
+}
+
+/**
+ * Matter failed to handle the request, e.g. with a server error
+ */
+export class MatterUpstreamError extends MatterAPIError {
+  constructor(message: string, status: number, response?: unknown) {
+    super(message, status, response);
+    this.name = "MatterUpstreamError";
+  }
+}
+
+/**
+ * Matter responded successfully, but not in the shape the server expects,
+ * e.g. because the API changed
+ */
+export class MatterResponseError extends MatterAPIError {
+  code: MatterErrorCode = "unexpected_response";
+
+  constructor(
+    message: string,
+    status: number,
+    // The fields that are missing or have the wrong type
+    public issues: ValidationIssue[]
+  ) {
+    super(message, status);
+    this.name = "MatterResponseError";
+  }
+}
+
+/**
+ * No response arrived from Matter at all
+ */
+export class MatterNetworkError extends Error {
+  code: MatterErrorCode = "network_error";
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "MatterNetworkError";
+  }
+}
+
+/**
+ * The arguments for a tool are invalid
+ */
+export class ValidationError extends Error {
+  code: MatterErrorCode = "invalid_arguments";
+
+  constructor(
+    message: string,
+    public issues: ValidationIssue[] = [{ message }]
+  ) {
+    super(message);
+    this.name = "ValidationError";
+  }
+
+  /**
+   * Report each problem found by a Zod schema against the field it's about
+   */
+  static fromZodError(error: ZodError): ValidationError {
+    const issues = error.issues.map((issue) => ({
+      field: issue.path.length > 0 ? issue.path.join(".") : undefined,
+      message: issue.message,
+    }));
+    const summary = issues.map((issue) => (issue.field ? `${issue.field}: ${issue.message}` : issue.message));
+    return new ValidationError(summary.join("; "), issues);
+  }
+}
+
+/**
+ * The tool changes the library, but the server was only given read access
+ */
+export class ReadOnlyError extends Error {
+  code: MatterErrorCode = "read_only";
+
+  constructor(public tool: string) {
+    super(`${tool} changes your Matter library, but this server only has read access`);
+    this.name = "ReadOnlyError";
+  }
+}
+
+/**
+ * No tool has the requested name
+ */
+export class UnknownToolError extends Error {
+  code: MatterErrorCode = "unknown_tool";
+
+  constructor(public tool: string) {
+    super(`Unknown tool: ${tool}`);
+    this.name = "UnknownToolError";
+  }
+}
+
+/**
+ * The error for an unsuccessful response from the Matter API, picked by
+ * status code
+ */
+export function createAPIError(message: string, status: number, response?: unknown): MatterAPIError {
+  if (status === 401 || status === 403) {
+    return new MatterAuthError(message, status, response);
+  }
+  if (status === 404) {
+    return new MatterNotFoundError(message, response);
+  }
+  if (status === 429) {
+    return new MatterRateLimitError(message, undefined, response);
+  }
+  if (status === 408 || status >= 500) {
+    return new MatterUpstreamError(message, status, response);
+  }
+  return new MatterAPIError(message, status, response);
+}
@@ -0,0 +1,177 @@
+/**
+ * Highlight export
+ *
+ * Renders highlights from many articles as Obsidian notes, a Readwise
+ * compatible CSV file, or JSON.
+ */
+
+import { libraryStateToString, type Annotation, type FeedEntry } from "./matter-api.js";
+import { getAuthorName, getPublishedDate, getPublisherName } from "./filters.js";
+import { getHighlights } from "./highlights.js";
+import { toHighlightOutput } from "./output.js";
+
+export type ExportFormat = "obsidian" | "readwise_csv" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["obsidian", "readwise_csv", "json"];
+
+export interface ExportedArticle {
+  entry: FeedEntry;
+  highlights: Annotation[];
+}
+
+/**
+ * Collect the highlights of each entry, keeping only those created within
+ * the given range. Entries without any remaining highlights are dropped.
+ */
+export function collectHighlights(
+  entries: FeedEntry[],
+  range: { createdAfter?: Date; createdBefore?: Date } = {}
+): ExportedArticle[] {
+  const articles: ExportedArticle[] = [];
+
+  for (const entry of entries) {
+    const highlights = getHighlights(entry)
+      .filter((highlight) => {
+        const created = new Date(highlight.created_date).getTime();
+        if (range.createdAfter && !(created >= range.createdAfter.getTime())) {
+          return false;
+        }
+        if (range.createdBefore && !(created <= range.createdBefore.getTime())) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => a.word_start - b.word_start);
+
+    if (highlights.length > 0) {
+      articles.push({ entry, highlights });
+    }
+  }
+
+  return articles;
+}
+
+function yamlString(value: string): string {
+  // JSON strings are valid YAML double-quoted scalars
+  return JSON.stringify(value);
+}
+
+/**
+ * Render one article as an Obsidian note with YAML frontmatter
+ */
+export function toObsidianMarkdown({ entry, highlights }: ExportedArticle): string {
+  const { content } = entry;
+  const lines: string[] = [];
+
+  lines.push("---");
+  lines.push(`title: ${yamlString(content.title)}`);
+  const author = getAuthorName(content);
+  if (author) {
+    lines.push(`author: ${yamlString(author)}`);
+  }
+  const publisher = getPublisherName(content);
+  if (publisher) {
+    lines.push(`publisher: ${yamlString(publisher)}`);
+  }
+  lines.push(`url: ${yamlString(content.url)}`);
+  const published = getPublishedDate(content);
+  if (published) {
+    lines.push(`published: ${yamlString(published)}`);
+  }
+  if (content.library) {
+    lines.push(`status: ${libraryStateToString(content.library.library_state)}`);
+  }
+  lines.push(`matter_id: ${content.id}`);
+  if (content.tags && content.tags.length > 0) {
+    lines.push("tags:");
+    for (const tag of content.tags) {
+      lines.push(`  - ${yamlString(tag.name)}`);
+    }
+  }
+  lines.push("---");
+  lines.push("");
+  lines.push(`# ${content.title}`);
+
+  if (content.my_note) {
+    lines.push("");
+    lines.push("## Notes");
+    lines.push(content.my_note);
+  }
+
+  lines.push("");
+  lines.push("## Highlights");
+  for (const highlight of highlights) {
+    lines.push("");
+    lines.push(...highlight.text.split("\n").map((line) => `> ${line}`));
+    if (highlight.note) {
+      lines.push("");
+      lines.push(`**Note:** ${highlight.note}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function readwiseDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  // Readwise expects "YYYY-MM-DD HH:MM:SS"
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/**
+ * Render highlights in the column layout of Readwise's CSV import
+ */
+export function toReadwiseCsv(articles: ExportedArticle[]): string {
+  const rows: string[] = ["Highlight,Title,Author,URL,Note,Location,Date"];
+
+  for (const { entry, highlights } of articles) {
+    const { content } = entry;
+    for (const highlight of highlights) {
+      rows.push(
+        [
+          csvField(highlight.text),
+          csvField(content.title),
+          csvField(getAuthorName(content)),
+          csvField(content.url),
+          csvField(highlight.note),
+          csvField(highlight.word_start),
+          csvField(readwiseDate(highlight.created_date)),
+        ].join(",")
+      );
+    }
+  }
+
+  return rows.join("\n");
+}
+
+/**
+ * The articles and their highlights as plain data, as rendered by toJson()
+ */
+export function toExportData(articles: ExportedArticle[]) {
+  return articles.map(({ entry, highlights }) => {
+    const { content } = entry;
+    return {
+      id: String(content.id),
+      title: content.title,
+      author: getAuthorName(content),
+      publisher: getPublisherName(content),
+      url: content.url,
+      library_state: content.library ? libraryStateToString(content.library.library_state) : null,
+      tags: (content.tags || []).map((t) => t.name),
+      note: content.my_note,
+      highlights: highlights.map(toHighlightOutput),
+    };
+  });
+}
+
+export function toJson(articles: ExportedArticle[]): string {
+  return JSON.stringify(toExportData(articles), null, 2);
+}
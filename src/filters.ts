@@ -0,0 +1,223 @@
+/**
+ * Article filtering, sorting and pagination cursors
+ *
+ * Used by matter_list_articles to narrow down the locally cached library,
+ * since the updates feed endpoint doesn't support any filtering itself.
+ */
+
+import type { Content, FeedEntry, LibraryState } from "./matter-api.js";
+import { ValidationError } from "./errors.js";
+
+export interface ArticleFilter {
+  libraryStates?: LibraryState[];
+  isFavorited?: boolean;
+  tags?: string[];
+  author?: string;
+  publisher?: string;
+  language?: string;
+  // Read progress as a fraction between 0 and 1
+  minProgress?: number;
+  maxProgress?: number;
+  savedAfter?: Date;
+  savedBefore?: Date;
+  publishedAfter?: Date;
+  publishedBefore?: Date;
+}
+
+export type ArticleSortField =
+  | "queue_order"
+  | "library_state_date"
+  | "reading_time_minutes"
+  | "progress";
+
+export type SortOrder = "asc" | "desc";
+
+export const ARTICLE_SORT_FIELDS: ArticleSortField[] = [
+  "queue_order",
+  "library_state_date",
+  "reading_time_minutes",
+  "progress",
+];
+
+export function getReadProgress(content: Content): number | null {
+  return content.history?.max_read_percentage ?? content.history?.last_read_percentage ?? null;
+}
+
+export function getAuthorName(content: Content): string | null {
+  if (content.author) {
+    return content.author.any_name || content.author.name;
+  }
+  // Fall back to the parsed article authors
+  return content.article?.authors?.join(", ") || null;
+}
+
+export function getPublisherName(content: Content): string | null {
+  return content.publisher?.any_name || content.publisher?.name || null;
+}
+
+/**
+ * The date an item was saved to the library. The feed doesn't expose a
+ * dedicated field, so use the date it entered the feed and fall back to
+ * the last library state change.
+ */
+export function getSavedDate(content: Content): string | null {
+  return content.feed_date ?? content.library?.library_state_date ?? null;
+}
+
+export function getPublishedDate(content: Content): string | null {
+  return content.publication_date ?? content.article?.publication_date ?? null;
+}
+
+function includesIgnoreCase(haystack: string | null, needle: string): boolean {
+  return haystack !== null && haystack.toLowerCase().includes(needle.toLowerCase());
+}
+
+function isWithinRange(value: string | null, after?: Date, before?: Date): boolean {
+  if (!after && !before) {
+    return true;
+  }
+  if (!value) {
+    return false;
+  }
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  if (after && time < after.getTime()) {
+    return false;
+  }
+  if (before && time > before.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+export function matchesFilter(entry: FeedEntry, filter: ArticleFilter): boolean {
+  const { content } = entry;
+
+  if (filter.libraryStates && filter.libraryStates.length > 0) {
+    if (!content.library || !filter.libraryStates.includes(content.library.library_state)) {
+      return false;
+    }
+  }
+
+  if (filter.isFavorited !== undefined) {
+    if ((content.library?.is_favorited ?? false) !== filter.isFavorited) {
+      return false;
+    }
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+    const tagNames = (content.tags || []).map((t) => t.name.toLowerCase());
+    if (!filter.tags.every((tag) => tagNames.includes(tag.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (filter.author && !includesIgnoreCase(getAuthorName(content), filter.author)) {
+    return false;
+  }
+
+  if (filter.publisher && !includesIgnoreCase(getPublisherName(content), filter.publisher)) {
+    return false;
+  }
+
+  if (filter.language) {
+    const language = content.article?.language?.toLowerCase();
+    // Match "en" against "en-US" as well
+    if (!language || !language.startsWith(filter.language.toLowerCase())) {
+      return false;
+    }
+  }
+
+  if (filter.minProgress !== undefined || filter.maxProgress !== undefined) {
+    const progress = getReadProgress(content) ?? 0;
+    if (filter.minProgress !== undefined && progress < filter.minProgress) {
+      return false;
+    }
+    if (filter.maxProgress !== undefined && progress > filter.maxProgress) {
+      return false;
+    }
+  }
+
+  if (!isWithinRange(getSavedDate(content), filter.savedAfter, filter.savedBefore)) {
+    return false;
+  }
+
+  if (!isWithinRange(getPublishedDate(content), filter.publishedAfter, filter.publishedBefore)) {
+    return false;
+  }
+
+  return true;
+}
+
+function getSortValue(entry: FeedEntry, field: ArticleSortField): number | null {
+  const { content } = entry;
+  switch (field) {
+    case "queue_order":
+      return content.library?.queue_order ?? null;
+    case "library_state_date": {
+      const date = content.library?.library_state_date;
+      return date ? new Date(date).getTime() : null;
+    }
+    case "reading_time_minutes":
+      return content.article?.reading_time_minutes ?? null;
+    case "progress":
+      return getReadProgress(content);
+  }
+}
+
+/**
+ * Sort entries by the given field. Entries without a value for the field
+ * are always placed last, regardless of the sort order.
+ */
+export function sortArticles(
+  entries: FeedEntry[],
+  field: ArticleSortField,
+  order: SortOrder = "asc"
+): FeedEntry[] {
+  const direction = order === "asc" ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    const aValue = getSortValue(a, field);
+    const bValue = getSortValue(b, field);
+    if (aValue === null || Number.isNaN(aValue)) {
+      return bValue === null || Number.isNaN(bValue) ? 0 : 1;
+    }
+    if (bValue === null || Number.isNaN(bValue)) {
+      return -1;
+    }
+    return (aValue - bValue) * direction;
+  });
+}
+
+export interface ListCursor {
+  // Position in the filtered and sorted library
+  offset: number;
+  // Filter and sort arguments the list was made with, so that the next page
+  // comes from the same list
+  query?: Record<string, unknown>;
+}
+
+/**
+ * Encode a list position as an opaque cursor string for clients
+ */
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify({ o: cursor.offset, q: cursor.query })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): ListCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    const validQuery =
+      decoded.q === undefined || (typeof decoded.q === "object" && decoded.q !== null && !Array.isArray(decoded.q));
+    if (Number.isInteger(decoded.o) && decoded.o >= 0 && validQuery) {
+      return { offset: decoded.o, query: decoded.q };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ValidationError("Invalid cursor", [
+    { field: "cursor", message: "Not a cursor returned by a previous page" },
+  ]);
+}
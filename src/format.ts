@@ -0,0 +1,272 @@
+/**
+ * Matter MCP Server - Response Formatting
+ *
+ * Renders Matter data as Markdown for tool results, resources and prompts.
+ */
+
+import {
+  libraryStateToString,
+  type BatchItemResult,
+  type FeedEntry,
+  type MatterDiagnostics,
+  type Tag,
+} from "./matter-api.js";
+import { getHighlights } from "./highlights.js";
+import type { ArticlePart, TableOfContentsEntry } from "./chunks.js";
+import type { SearchResult } from "./search.js";
+
+export function formatArticle(entry: FeedEntry): string {
+  const { content } = entry;
+  const lines: string[] = [formatArticleMetadata(entry)];
+
+  // Highlights/annotations - merged from entry.annotations and content.my_annotations
+  if (getHighlights(entry).length > 0) {
+    lines.push("");
+    lines.push(formatHighlights(entry));
+  }
+
+  // Full article content if available
+  if (content.article?.markdown) {
+    lines.push("");
+    lines.push("## Full Article");
+    lines.push(content.article.markdown);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Everything about an article except its highlights and text
+ */
+export function formatArticleMetadata(entry: FeedEntry): string {
+  const { content } = entry;
+  const lines: string[] = [];
+
+  lines.push(`# ${content.title}`);
+  lines.push("");
+
+  // Author - check author.any_name or author.name
+  const authorName = content.author?.any_name || content.author?.name;
+  if (authorName) {
+    lines.push(`**Author:** ${authorName}`);
+  }
+
+  // Publisher - check publisher.any_name or publisher.name
+  const publisherName = content.publisher?.any_name || content.publisher?.name;
+  if (publisherName) {
+    lines.push(`**Publisher:** ${publisherName}`);
+  }
+
+  if (content.publication_date) {
+    lines.push(`**Published:** ${content.publication_date}`);
+  }
+
+  lines.push(`**URL:** ${content.url}`);
+
+  // Library state is in content.library.library_state
+  if (content.library) {
+    lines.push(`**Status:** ${libraryStateToString(content.library.library_state)}`);
+  }
+
+  // Word count and reading time from article
+  if (content.article?.word_count) {
+    lines.push(`**Word Count:** ${content.article.word_count}`);
+  }
+
+  if (content.article?.reading_time_minutes) {
+    lines.push(`**Reading Time:** ${content.article.reading_time_minutes} min`);
+  }
+
+  // Reading progress from history
+  const readProgress = content.history?.max_read_percentage ?? content.history?.last_read_percentage;
+  if (readProgress !== null && readProgress !== undefined) {
+    lines.push(`**Reading Progress:** ${Math.round(readProgress * 100)}%`);
+  }
+
+  // Tags
+  if (content.tags && content.tags.length > 0) {
+    lines.push(`**Tags:** ${content.tags.map((t) => t.name).join(", ")}`);
+  }
+
+  // Excerpt
+  if (content.excerpt) {
+    lines.push("");
+    lines.push("## Excerpt");
+    lines.push(content.excerpt);
+  }
+
+  // My note
+  if (content.my_note) {
+    lines.push("");
+    lines.push("## My Notes");
+    lines.push(content.my_note);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * List headings as nested bullets, each with the part of the article it is in
+ */
+export function formatTableOfContents(entries: TableOfContentsEntry[]): string {
+  const topLevel = Math.min(...entries.map((entry) => entry.level));
+  return entries
+    .map((entry) => `${"  ".repeat(entry.level - topLevel)}- ${entry.title} (part ${entry.part})`)
+    .join("\n");
+}
+
+/**
+ * Render one part of an article's text. An article that fits in a single
+ * part reads the same as in formatArticle().
+ */
+export function formatArticlePart(part: ArticlePart, tableOfContents: TableOfContentsEntry[]): string {
+  if (part.totalParts === 1) {
+    return `## Full Article\n${part.text}`;
+  }
+
+  const lines: string[] = [];
+  lines.push(`## Full Article (part ${part.part} of ${part.totalParts})`);
+  lines.push(`*Characters ${part.start}-${part.end} of ${part.length}*`);
+
+  // The contents help pick a part, so they come with the first one
+  if (part.part === 1 && tableOfContents.length > 0) {
+    lines.push("");
+    lines.push("### Contents");
+    lines.push(formatTableOfContents(tableOfContents));
+  }
+
+  lines.push("");
+  lines.push(part.text);
+
+  if (part.nextCursor) {
+    lines.push("");
+    lines.push(`*Continued in part ${part.part + 1}: call matter_get_article with cursor "${part.nextCursor}"*`);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatHighlights(entry: FeedEntry): string {
+  const lines: string[] = [];
+  lines.push("## Highlights");
+
+  const highlights = getHighlights(entry);
+  if (highlights.length === 0) {
+    lines.push("");
+    lines.push("No highlights yet.");
+  }
+
+  for (const annotation of highlights) {
+    lines.push("");
+    lines.push(`> ${annotation.text}`);
+    if (annotation.note) {
+      lines.push(`  *Note: ${annotation.note}*`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatArticleList(entries: FeedEntry[], nextCursor?: string | null): string {
+  const lines: string[] = [];
+  lines.push(`Found ${entries.length} articles:\n`);
+
+  for (const entry of entries) {
+    const { content } = entry;
+
+    // Get reading progress from history
+    const readProgress = content.history?.max_read_percentage ?? content.history?.last_read_percentage ?? 0;
+    const progress = Math.round(readProgress * 100);
+
+    // Get author name
+    const authorName = content.author?.any_name || content.author?.name;
+    const author = authorName ? ` by ${authorName}` : "";
+
+    // Get library state
+    const status = content.library ? libraryStateToString(content.library.library_state) : "UNKNOWN";
+
+    lines.push(`- **${content.title}**${author}`);
+    lines.push(`  ID: ${content.id}`);
+    lines.push(`  URL: ${content.url}`);
+    lines.push(`  Status: ${status} | Progress: ${progress}%`);
+    lines.push("");
+  }
+
+  if (nextCursor) {
+    lines.push(`More articles available. Next cursor: ${nextCursor}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function formatSearchResults(query: string, results: SearchResult[]): string {
+  if (results.length === 0) {
+    return `No articles found matching "${query}".`;
+  }
+
+  const lines: string[] = [];
+  lines.push(`Found ${results.length} articles matching "${query}":\n`);
+
+  for (const { entry, matches } of results) {
+    const { content } = entry;
+    const authorName = content.author?.any_name || content.author?.name;
+    const author = authorName ? ` by ${authorName}` : "";
+
+    lines.push(`- **${content.title}**${author}`);
+    lines.push(`  ID: ${content.id}`);
+    lines.push(`  URL: ${content.url}`);
+    for (const match of matches) {
+      lines.push(`  [${match.field}] ${match.snippet}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+export function formatTags(tags: Tag[]): string {
+  return tags.length > 0 ? `tags: ${tags.map((t) => t.name).join(", ")}` : "no tags";
+}
+
+export function formatBatchResults<T>(
+  action: string,
+  results: BatchItemResult<T>[],
+  describe: (result: T) => string
+): string {
+  const succeeded = results.filter((r) => r.error === undefined).length;
+  const lines: string[] = [];
+  lines.push(`${action}: ${succeeded} of ${results.length} succeeded\n`);
+
+  for (const { contentId, result, error } of results) {
+    if (error !== undefined) {
+      lines.push(`- ✗ ${contentId}: ${error}`);
+    } else {
+      lines.push(`- ✓ ${contentId}: ${describe(result as T)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatDiagnostics(diagnostics: MatterDiagnostics): string {
+  const lines: string[] = [];
+  lines.push(`Matter API: ${diagnostics.apiUrl}`);
+  lines.push(
+    diagnostics.strictSchemas
+      ? "Response checks: strict (responses that don't match fail the request)"
+      : "Response checks: tolerant (missing or mistyped fields fall back to empty values)"
+  );
+  lines.push("");
+
+  if (diagnostics.schemaDrift.length === 0) {
+    lines.push("No schema drift detected since the server started.");
+    return lines.join("\n");
+  }
+
+  lines.push(`Schema drift detected since the server started (${diagnostics.schemaDrift.length}):\n`);
+  for (const drift of diagnostics.schemaDrift) {
+    lines.push(`- ${drift.response} ${drift.field}: ${drift.problem}`);
+    lines.push(`  Seen in ${drift.count} response(s), first ${drift.firstSeen}, last ${drift.lastSeen}`);
+  }
+  return lines.join("\n");
+}
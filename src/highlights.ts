@@ -0,0 +1,175 @@
+/**
+ * Highlight helpers
+ *
+ * Matter stores highlights as word ranges into the article text. These helpers
+ * collect an entry's highlights, and turn a quoted passage or a word range into
+ * the span to highlight, failing loudly instead of guessing when a quote is
+ * missing or ambiguous.
+ *
+ * Matter counts words in the article's original HTML, so words here are
+ * whitespace-separated tokens of `article.markdown` with the Markdown syntax
+ * stripped: link targets, images, emphasis markers, list bullets and the
+ * like. This follows the reader's text closely, but articles with unusual
+ * markup can still be a few words off. `word_end` is exclusive.
+ */
+
+import type { Annotation, FeedEntry } from "./matter-api.js";
+import { ValidationError } from "./errors.js";
+
+export interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface HighlightSpan {
+  wordStart: number;
+  wordEnd: number;
+  text: string;
+}
+
+/**
+ * All highlights on an entry. The feed returns them both on the entry and on
+ * its content, often overlapping, so duplicates are dropped.
+ */
+export function getHighlights(entry: FeedEntry): Annotation[] {
+  const highlights: Annotation[] = [];
+  const seen = new Set<string>();
+  for (const annotation of [...(entry.annotations || []), ...(entry.content.my_annotations || [])]) {
+    const key = annotation.id || `${annotation.word_start}:${annotation.word_end}:${annotation.text}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    highlights.push(annotation);
+  }
+  return highlights;
+}
+
+/**
+ * The text of an article as Matter's reader shows it, without the Markdown
+ * syntax the local copy is written in
+ */
+export function toPlainText(markdown: string): string {
+  return (
+    markdown
+      // Code fences, horizontal rules and table separators
+      .replace(/^ {0,3}(?:`{3,}|~{3,}).*$/gm, "")
+      .replace(/^ {0,3}(?:[-*_] *){3,}$/gm, "")
+      .replace(/^ {0,3}\|?(?: *:?-+:? *\|)+ *:?-*:? *$/gm, "")
+      // Headings, block quotes, list bullets and table pipes
+      .replace(/^ {0,3}#{1,6}(?=\s)/gm, "")
+      .replace(/^(?: {0,3}> ?)+/gm, "")
+      .replace(/^\s*(?:[-*+]|\d+[.)])(?=\s)/gm, "")
+      .replace(/(^|\s)\|(?=\s|$)/g, "$1")
+      // Images are not part of the text, links keep only their text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+      .replace(/\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/g, "$1")
+      .replace(/<(https?:\/\/[^>\s]+)>/g, "$1")
+      // HTML tags left in the Markdown
+      .replace(/<\/?[a-zA-Z][^>]*>/g, "")
+      // Emphasis, strikethrough and inline code markers
+      .replace(/(\*{1,3}|_{1,3}|~~|`+)(?=\S)/g, (marker, _m, offset: number, text: string) =>
+        offset === 0 || /[\s([{"'“‘]/.test(text[offset - 1]) ? "" : marker
+      )
+      .replace(/(?<=[^\s\\])(\*{1,3}|_{1,3}|~~|`+)(?=[\s)\]}.,;:!?"'”’]|$)/g, "")
+      // Escaped characters
+      .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, "$1")
+  );
+}
+
+export function splitWords(text: string): Word[] {
+  const words: Word[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const start = match.index ?? 0;
+    words.push({ text: match[0], start, end: start + match[0].length });
+  }
+  return words;
+}
+
+/**
+ * Reduce a word to what matters for matching a quote, so that markdown
+ * formatting, punctuation and curly quotes don't prevent a match
+ */
+function normalizeWord(word: string): string {
+  return word
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+function spanText(text: string, words: Word[], wordStart: number, wordEnd: number): string {
+  return text.slice(words[wordStart].start, words[wordEnd - 1].end);
+}
+
+/**
+ * Find the span of a quoted passage. When the passage appears more than once,
+ * `occurrence` (1-based) picks which one to use.
+ */
+export function findQuoteSpan(markdown: string, quote: string, occurrence?: number): HighlightSpan {
+  const text = toPlainText(markdown);
+  const words = splitWords(text);
+  const quoteWords = splitWords(quote).map((w) => normalizeWord(w.text)).filter(Boolean);
+  if (quoteWords.length === 0) {
+    throw new ValidationError("Quote must contain at least one word", [
+      { field: "quote", message: "Must contain at least one word" },
+    ]);
+  }
+
+  // Skip words that are pure formatting, like "##" or "—"
+  const candidates = words
+    .map((word, index) => ({ normalized: normalizeWord(word.text), index }))
+    .filter((w) => w.normalized.length > 0);
+
+  const matches: HighlightSpan[] = [];
+  for (let i = 0; i + quoteWords.length <= candidates.length; i++) {
+    if (quoteWords.every((word, j) => candidates[i + j].normalized === word)) {
+      const wordStart = candidates[i].index;
+      const wordEnd = candidates[i + quoteWords.length - 1].index + 1;
+      matches.push({ wordStart, wordEnd, text: spanText(text, words, wordStart, wordEnd) });
+    }
+  }
+
+  if (matches.length === 0) {
+    throw new ValidationError(`Quote not found in the article: "${quote}"`, [
+      { field: "quote", message: `"${quote}" was not found in the article` },
+    ]);
+  }
+
+  if (occurrence !== undefined) {
+    if (occurrence < 1 || occurrence > matches.length) {
+      const message = `Must be between 1 and ${matches.length}, the number of times the quote appears`;
+      throw new ValidationError(`Invalid occurrence: ${message}`, [{ field: "occurrence", message }]);
+    }
+    return matches[occurrence - 1];
+  }
+
+  if (matches.length > 1) {
+    throw new ValidationError(
+      `Quote is ambiguous: it appears ${matches.length} times in the article. Quote a longer passage or pass occurrence to pick one.`,
+      [
+        {
+          field: "quote",
+          message: `Appears ${matches.length} times in the article. Quote a longer passage or pass occurrence to pick one.`,
+        },
+      ]
+    );
+  }
+
+  return matches[0];
+}
+
+/**
+ * Resolve a word range into the span to highlight
+ */
+export function getWordRangeSpan(markdown: string, wordStart: number, wordEnd: number): HighlightSpan {
+  const text = toPlainText(markdown);
+  const words = splitWords(text);
+  if (wordStart < 0 || wordEnd <= wordStart || wordEnd > words.length) {
+    throw new ValidationError(
+      `Invalid word range ${wordStart}-${wordEnd}: the article has ${words.length} words and word_end must be greater than word_start`,
+      [{ field: "word_end", message: `Must be greater than word_start and at most ${words.length}` }]
+    );
+  }
+  return { wordStart, wordEnd, text: spanText(text, words, wordStart, wordEnd) };
+}
@@ -0,0 +1,45 @@
+/**
+ * HTML Helpers
+ *
+ * Helpers for the HTML pages served by the OAuth flow.
+ */
+
+import { randomBytes } from "node:crypto";
+
+/**
+ * Serialize a value as JSON that is safe to embed in a
+ * `<script type="application/json">` block. `JSON.stringify` alone would
+ * let a value containing `</script>` or `<!--` end the block early.
+ */
+export function jsonForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * Generate a nonce for allowing inline scripts and styles in a
+ * Content-Security-Policy.
+ */
+export function createCspNonce(): string {
+  return randomBytes(16).toString("base64");
+}
+
+/**
+ * A strict Content-Security-Policy for pages that only use inline scripts and
+ * styles carrying the nonce, and only talk to this server.
+ */
+export function getContentSecurityPolicy(nonce: string): string {
+  return [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    `style-src 'nonce-${nonce}'`,
+    "connect-src 'self'",
+    "base-uri 'none'",
+    "form-action 'none'",
+    "frame-ancestors 'none'",
+  ].join("; ");
+}
@@ -0,0 +1,166 @@
+/**
+ * HTTP Helpers
+ *
+ * Timeouts, cancellation and retry timing for requests to the Matter API.
+ */
+
+import { MatterNetworkError, type MatterErrorCode } from "./errors.js";
+
+// Delays for exponential backoff between retries
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_BACKOFF_MS = 8 * 1000;
+
+// Waiting longer than this for a Retry-After would outlast most MCP requests,
+// so the error is reported instead
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+// Statuses that are worth retrying: timeouts, rate limiting and server errors
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Methods that can safely be repeated if a response never arrived. PATCH
+// isn't idempotent, so a write that may already have been applied is never
+// replayed.
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export class RequestTimeoutError extends MatterNetworkError {
+  code: MatterErrorCode = "timeout";
+
+  constructor(public timeoutMs: number) {
+    super(`Request to the Matter API timed out after ${timeoutMs / 1000}s`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/**
+ * The requests made on behalf of one MCP request together took longer than
+ * allowed, counting every attempt and every page
+ */
+export class TotalTimeoutError extends MatterNetworkError {
+  code: MatterErrorCode = "timeout";
+
+  constructor(public timeoutMs: number) {
+    super(`Requests to the Matter API took longer than the ${timeoutMs / 1000}s allowed for one call`);
+    this.name = "TotalTimeoutError";
+  }
+}
+
+/**
+ * fetch() that gives up after `timeoutMs` (0 to wait forever) or when
+ * `signal` aborts, whichever comes first
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const timeoutSignal = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined;
+  const signals = [signal, timeoutSignal].filter((s): s is AbortSignal => s !== undefined);
+
+  try {
+    return await fetch(url, {
+      ...init,
+      // Unlike listeners on the caller's signal, which lives for a whole tool
+      // call, a combined signal doesn't pile up with every request
+      signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+    });
+  } catch (error) {
+    if (timeoutSignal?.aborted && !signal?.aborted) {
+      throw new RequestTimeoutError(timeoutMs);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a request can be retried after it failed with `status`, or with no
+ * response at all if `status` is undefined. Non-idempotent requests are only
+ * retried when the server is known to have rejected them unprocessed.
+ */
+export function isRetryable(method: string, status?: number): boolean {
+  if (status === 429) {
+    return true;
+  }
+  if (!IDEMPOTENT_METHODS.has(method.toUpperCase())) {
+    return false;
+  }
+  return status === undefined || RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as a date, into
+ * milliseconds from `now`
+ */
+export function parseRetryAfter(retryAfter?: string | null, now: number = Date.now()): number | undefined {
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - now : seconds * 1000;
+  return Number.isNaN(delay) ? undefined : Math.max(0, delay);
+}
+
+/**
+ * How long to wait before retry number `attempt` (starting at 0): the
+ * server's Retry-After if it sent one, otherwise exponential backoff with
+ * full jitter. Returns null if the server asks to wait too long.
+ */
+export function getRetryDelay(attempt: number, retryAfter?: string | null, now: number = Date.now()): number | null {
+  const delay = parseRetryAfter(retryAfter, now);
+  if (delay !== undefined) {
+    return delay > MAX_RETRY_AFTER_MS ? null : delay;
+  }
+
+  const backoff = Math.min(RETRY_MAX_BACKOFF_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.random() * backoff;
+}
+
+/**
+ * Wait for `ms`, rejecting early if `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts. The promise
+ * itself keeps running, so other callers can still use its result.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
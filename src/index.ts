@@ -4,46 +4,254 @@
  * Matter MCP Server - Stdio Entry Point
  *
  * An MCP server for interacting with Matter, the read-later app.
- * This entry point is for local use with Claude Desktop via stdio.
+ * This entry point is for local use with Claude Desktop via stdio, and also
+ * provides commands to log in to Matter and manage the saved credentials.
  */
 
+import { rm } from "node:fs/promises";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createMatterServer } from "./server.js";
-import type { MatterTokens } from "./matter-api.js";
+import { FileLibraryStore, getDefaultLibraryCachePath } from "./library-store.js";
+import { CredentialsStore, hashToken } from "./credentials.js";
+import { MatterClient, type MatterTokens } from "./matter-api.js";
+import { QrCode, renderQrForTerminal } from "./qr.js";
 
 // Environment variable names for configuration
 const ENV_ACCESS_TOKEN = "MATTER_ACCESS_TOKEN";
 const ENV_REFRESH_TOKEN = "MATTER_REFRESH_TOKEN";
+const ENV_CACHE_PATH = "MATTER_CACHE_PATH";
+const ENV_CREDENTIALS_PATH = "MATTER_CREDENTIALS_PATH";
+const ENV_READ_ONLY = "MATTER_READ_ONLY";
 
-async function main() {
-  // Get tokens from environment variables
+// How long to wait for the QR code to be scanned during login
+const LOGIN_POLL_INTERVAL_MS = 1000;
+const LOGIN_TIMEOUT_MS = 2 * 60 * 1000;
+
+const USAGE = `Usage: getmatter-mcp-server [command] [options]
+
+Commands:
+  serve     Run the MCP server on stdio (default)
+  login     Connect your Matter account by scanning a QR code
+  logout    End the Matter session and delete the saved credentials and cache
+  whoami    Show which credentials are in use and check that they work
+  help      Show this help
+
+Options:
+  --read-only   Only offer tools that don't change your library
+                (or set ${ENV_READ_ONLY}=1)
+`;
+
+interface CommandOptions {
+  readOnly: boolean;
+}
+
+const FLAGS = new Set(["--read-only"]);
+
+function getCredentialsStore(): CredentialsStore {
+  return new CredentialsStore(process.env[ENV_CREDENTIALS_PATH] || undefined);
+}
+
+function getCachePath(): string {
+  return process.env[ENV_CACHE_PATH] || getDefaultLibraryCachePath();
+}
+
+interface LoadedTokens {
+  tokens: MatterTokens;
+  source: string;
+  // Set when the tokens came from the environment, to be saved along with
+  // refreshed tokens
+  envRefreshTokenHash?: string;
+}
+
+/**
+ * Load tokens from the environment, falling back to the credentials file.
+ *
+ * Environment variables override the saved credentials, except for tokens
+ * saved after refreshing the very tokens in the environment: refreshing
+ * rotates the refresh token, so the one in the environment no longer works
+ * and the saved one has to be used instead.
+ */
+async function loadTokens(credentials: CredentialsStore): Promise<LoadedTokens | null> {
+  const saved = await credentials.load();
   const accessToken = process.env[ENV_ACCESS_TOKEN];
   const refreshToken = process.env[ENV_REFRESH_TOKEN];
+  if (accessToken && refreshToken) {
+    const envRefreshTokenHash = hashToken(refreshToken);
+    if (saved?.envRefreshTokenHash === envRefreshTokenHash) {
+      return {
+        tokens: { accessToken: saved.accessToken, refreshToken: saved.refreshToken },
+        source: `${credentials.path} (refreshed from environment variables)`,
+        envRefreshTokenHash,
+      };
+    }
+    return { tokens: { accessToken, refreshToken }, source: "environment variables", envRefreshTokenHash };
+  }
+
+  return saved ? { tokens: saved, source: credentials.path } : null;
+}
+
+function isEnabled(value: string | undefined): boolean {
+  return value !== undefined && ["1", "true", "yes"].includes(value.toLowerCase());
+}
+
+async function serve(options: CommandOptions) {
+  const credentials = getCredentialsStore();
+  const loaded = await loadTokens(credentials);
 
-  if (!accessToken || !refreshToken) {
-    console.error(`Error: Missing required environment variables.
+  if (!loaded) {
+    console.error(`Error: No Matter credentials found.
 
-Please set the following environment variables:
+Run "getmatter-mcp-server login" to connect your Matter account, or set the
+following environment variables:
   - ${ENV_ACCESS_TOKEN}: Your Matter access token
   - ${ENV_REFRESH_TOKEN}: Your Matter refresh token
-
-To obtain these tokens:
-1. Install the Matter Obsidian plugin
-2. Connect it to your Matter account via QR code scan
-3. Find the tokens in .obsidian/plugins/matter/data.json
-   - accessToken -> ${ENV_ACCESS_TOKEN}
-   - refreshToken -> ${ENV_REFRESH_TOKEN}
 `);
     process.exit(1);
   }
 
-  const tokens: MatterTokens = { accessToken, refreshToken };
-  const server = createMatterServer(tokens);
+  const store = new FileLibraryStore(getCachePath());
+  const server = createMatterServer(loaded.tokens, {
+    store,
+    readOnly: options.readOnly,
+    subscriptions: true,
+    // Refreshing rotates the refresh token, so persist it for the next start
+    onTokenRefresh: (refreshed) => {
+      credentials.save(refreshed, loaded.envRefreshTokenHash).catch((error) => {
+        console.error(`Failed to save refreshed credentials to ${credentials.path}:`, error);
+      });
+    },
+  });
 
   // Start the server with stdio transport
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("Matter MCP Server running on stdio");
+  console.error(`Matter MCP Server running on stdio${options.readOnly ? " (read-only)" : ""}`);
+}
+
+async function login() {
+  const credentials = getCredentialsStore();
+
+  let sessionToken: string | undefined;
+  try {
+    ({ session_token: sessionToken } = await MatterClient.triggerQRLogin());
+  } catch (error) {
+    console.error(`✗ Couldn't start the login: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+  if (!sessionToken) {
+    throw new Error("Unexpected response from Matter API - no session token");
+  }
+
+  console.log("Scan this QR code with the Matter app on your phone");
+  console.log("(Profile → Settings → Connected Accounts):\n");
+  console.log(renderQrForTerminal(QrCode.encode(sessionToken)));
+  console.log("\nWaiting for you to scan...");
+
+  const deadline = Date.now() + LOGIN_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LOGIN_POLL_INTERVAL_MS));
+
+    let response;
+    try {
+      response = await MatterClient.exchangeQRToken(sessionToken);
+    } catch {
+      // Not scanned yet
+      continue;
+    }
+
+    if (response.access_token && response.refresh_token) {
+      await credentials.save({
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token,
+      });
+      console.log(`\n✓ Connected! Credentials saved to ${credentials.path}`);
+      return;
+    }
+  }
+
+  console.error("\n✗ Timed out waiting for the QR code to be scanned. Please try again.");
+  process.exit(1);
+}
+
+async function logout() {
+  const credentials = getCredentialsStore();
+
+  // Make sure the saved refresh token can't be used again, even if a copy of it leaked
+  const saved = await credentials.load();
+  if (saved) {
+    try {
+      await MatterClient.invalidateRefreshToken(saved.refreshToken);
+      console.log("✓ Ended the Matter session");
+    } catch {
+      console.log("Couldn't end the Matter session, it may already have expired.");
+    }
+  }
+
+  const existed = await credentials.clear();
+  await rm(getCachePath(), { force: true });
+
+  console.log(existed ? `✓ Deleted credentials from ${credentials.path}` : "No saved credentials found.");
+  if (process.env[ENV_ACCESS_TOKEN] || process.env[ENV_REFRESH_TOKEN]) {
+    console.log(`Note: ${ENV_ACCESS_TOKEN}/${ENV_REFRESH_TOKEN} are still set in the environment.`);
+  }
+}
+
+async function whoami() {
+  const credentials = getCredentialsStore();
+  const loaded = await loadTokens(credentials);
+  if (!loaded) {
+    console.log('Not logged in. Run "getmatter-mcp-server login" to connect your Matter account.');
+    process.exit(1);
+  }
+
+  console.log(`Credentials: ${loaded.source}`);
+
+  // Fetching a single item is enough to check the tokens and get the counts
+  const client = new MatterClient(loaded.tokens, (refreshed) => {
+    credentials.save(refreshed, loaded.envRefreshTokenHash).catch(() => undefined);
+  });
+  const { queueCount, archiveCount } = await client.getArticles({ limit: 1 });
+
+  console.log("Status: ✓ connected to Matter");
+  if (queueCount !== undefined) {
+    console.log(`Queue: ${queueCount} articles`);
+  }
+  if (archiveCount !== undefined) {
+    console.log(`Archive: ${archiveCount} articles`);
+  }
+}
+
+const COMMANDS: Record<string, (options: CommandOptions) => Promise<void>> = {
+  serve,
+  login,
+  logout,
+  whoami,
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("help") || args.includes("--help") || args.includes("-h")) {
+    console.log(USAGE);
+    return;
+  }
+
+  const unknownFlag = args.find((arg) => arg.startsWith("-") && !FLAGS.has(arg));
+  if (unknownFlag) {
+    console.error(`Unknown option: ${unknownFlag}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const [command = "serve", ...extra] = args.filter((arg) => !arg.startsWith("-"));
+  const run = COMMANDS[command];
+  if (!run || extra.length > 0) {
+    console.error(`Unknown command: ${[command, ...extra].join(" ")}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  await run({
+    readOnly: args.includes("--read-only") || isEnabled(process.env[ENV_READ_ONLY]),
+  });
 }
 
 main().catch((error) => {
@@ -0,0 +1,82 @@
+/**
+ * Library Index
+ *
+ * Lookup tables over the cached library so that single articles can be found
+ * by entry ID, content ID or URL without scanning every entry.
+ */
+
+import type { FeedEntry } from "./matter-api.js";
+
+// Query parameters that only track where a link was shared from
+const TRACKING_PARAMS = new Set(["fbclid", "gclid", "mc_cid", "mc_eid", "ref_src"]);
+
+/**
+ * Normalize a URL so that trivially different links to the same article
+ * compare equal: scheme, "www.", fragments, tracking parameters, parameter
+ * order and trailing slashes are ignored.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim().toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  const path = parsed.pathname.replace(/\/+$/, "");
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !key.toLowerCase().startsWith("utm_") && !TRACKING_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  return `${host}${path}${query}`;
+}
+
+export function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value.trim());
+}
+
+export class LibraryIndex {
+  readonly entries: FeedEntry[];
+  private byContentId = new Map<number, FeedEntry>();
+  private byEntryId = new Map<string, FeedEntry>();
+  private byUrl = new Map<string, FeedEntry>();
+
+  constructor(entries: FeedEntry[]) {
+    this.entries = entries;
+    for (const entry of entries) {
+      this.byContentId.set(entry.content.id, entry);
+      this.byEntryId.set(entry.id, entry);
+      for (const url of [entry.content.url, entry.content.article?.url]) {
+        if (url) {
+          this.byUrl.set(canonicalizeUrl(url), entry);
+        }
+      }
+    }
+  }
+
+  /**
+   * Find an entry by content ID, feed entry ID or article URL
+   */
+  find(idOrUrl: string): FeedEntry | null {
+    const value = idOrUrl.trim();
+
+    if (isUrl(value)) {
+      return this.byUrl.get(canonicalizeUrl(value)) ?? null;
+    }
+
+    const byEntryId = this.byEntryId.get(value);
+    if (byEntryId) {
+      return byEntryId;
+    }
+
+    // Content IDs are numeric, but may be passed as strings like "111847745"
+    if (/^\d+$/.test(value)) {
+      return this.byContentId.get(Number(value)) ?? null;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Library Storage
+ *
+ * Keeps a local copy of the user's library so that MatterClient only has to
+ * fetch updates since the last sync instead of walking the whole updates feed
+ * on every call.
+ */
+
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { writeFileAtomic } from "./atomic-write.js";
+import type { FeedEntry } from "./matter-api.js";
+
+export interface LibrarySnapshot {
+  // after_timestamp to use for the next incremental sync
+  lastSyncedAt: string;
+  entries: FeedEntry[];
+  // Progress of a sync that was cut short, so the next one continues from
+  // there instead of walking the updates feed from the start again
+  pending?: PendingSync;
+}
+
+export interface PendingSync {
+  // Next page of the updates feed to fetch
+  nextPage: string;
+  // lastSyncedAt to record once the sync finishes
+  lastSyncedAt: string;
+}
+
+export interface LibraryStore {
+  load(): Promise<LibrarySnapshot | null>;
+  save(snapshot: LibrarySnapshot): Promise<void>;
+}
+
+/**
+ * Keeps the library in memory only, for serverless deployments where the
+ * filesystem isn't persistent
+ */
+export class MemoryLibraryStore implements LibraryStore {
+  private snapshot: LibrarySnapshot | null = null;
+
+  async load(): Promise<LibrarySnapshot | null> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: LibrarySnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+}
+
+const SNAPSHOT_VERSION = 1;
+
+export function getDefaultLibraryCachePath(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(cacheHome, "getmatter-mcp", "library.json");
+}
+
+/**
+ * Persists the library as a JSON file
+ */
+export class FileLibraryStore implements LibraryStore {
+  constructor(private readonly path: string = getDefaultLibraryCachePath()) {}
+
+  async load(): Promise<LibrarySnapshot | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(raw);
+      if (data.version !== SNAPSHOT_VERSION || typeof data.lastSyncedAt !== "string" || !Array.isArray(data.entries)) {
+        return null;
+      }
+      const pending =
+        typeof data.pending?.nextPage === "string" && typeof data.pending?.lastSyncedAt === "string"
+          ? { nextPage: data.pending.nextPage, lastSyncedAt: data.pending.lastSyncedAt }
+          : undefined;
+      return { lastSyncedAt: data.lastSyncedAt, entries: data.entries, pending };
+    } catch {
+      // Corrupt cache - start over with a full sync
+      return null;
+    }
+  }
+
+  async save(snapshot: LibrarySnapshot): Promise<void> {
+    const data = JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot });
+    // The library includes private notes and highlights
+    await writeFileAtomic(this.path, data, 0o600);
+  }
+}
@@ -5,7 +5,63 @@
  * @see https://web.getmatter.com/
  */
 
-const API_BASE = "https://api.getmatter.com/api/v20";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { MemoryLibraryStore, type LibraryStore } from "./library-store.js";
+import { LibraryIndex } from "./library-index.js";
+import { SearchIndex } from "./search.js";
+import { getMatterConfig, type MatterConfig } from "./config.js";
+import {
+  fetchWithTimeout,
+  getRetryDelay,
+  isRetryable,
+  parseRetryAfter,
+  raceSignal,
+  RequestTimeoutError,
+  TotalTimeoutError,
+  sleep,
+} from "./http.js";
+import {
+  createAPIError,
+  MatterAuthError,
+  MatterNetworkError,
+  MatterNotFoundError,
+  MatterRateLimitError,
+} from "./errors.js";
+
+import {
+  ANNOTATION_SCHEMA,
+  FEED_RESPONSE_SCHEMA,
+  getSchemaDriftLog,
+  LIBRARY_SCHEMA,
+  NOTE_RESPONSE_SCHEMA,
+  parseResponse,
+  SAVE_ARTICLE_RESPONSE_SCHEMA,
+  TAGS_RESPONSE_SCHEMA,
+  TOKEN_REFRESH_RESPONSE_SCHEMA,
+  type ResponseSchema,
+  type SchemaDrift,
+  type SchemaDriftLog,
+} from "./schemas.js";
+
+export { MatterAPIError } from "./errors.js";
+
+// Timestamp that makes the updates feed return the whole library
+const EPOCH_TIMESTAMP = "1970-01-01T00:00:00.000000+00:00";
+
+// Overlap between incremental syncs to tolerate clock skew with the API
+const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+
+// How often a long sync saves its progress; a sync that fails saves it
+// right away
+const SYNC_CHECKPOINT_INTERVAL_MS = 10 * 1000;
+
+// How long a synced library is reused before checking for updates again
+const DEFAULT_SYNC_INTERVAL_MS = 30 * 1000;
+
+// Looking up an ID or URL that isn't in the library only checks for updates
+// if the last check is at least this old, so lookups of items that don't
+// exist can't make the server sync over and over
+const MIN_LOOKUP_SYNC_INTERVAL_MS = 10 * 1000;
 
 export interface MatterTokens {
   accessToken: string;
@@ -20,6 +76,14 @@ export enum LibraryState {
   FEED = 4,
 }
 
+export type LibraryStateName = "QUEUE" | "LATER" | "ARCHIVE" | "FEED";
+
+export const LIBRARY_STATE_NAMES: LibraryStateName[] = ["QUEUE", "LATER", "ARCHIVE", "FEED"];
+
+export function libraryStateFromString(name: LibraryStateName): LibraryState {
+  return LibraryState[name];
+}
+
 export function libraryStateToString(state: number): string {
   switch (state) {
     case LibraryState.QUEUE:
@@ -168,103 +232,273 @@ export interface SaveArticleResponse {
   content_id: number;
 }
 
-class MatterAPIError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public response?: unknown
-  ) {
-    super(message);
-    this.name = "MatterAPIError";
+export interface NoteResponse {
+  content_id: number;
+  my_note: string | null;
+}
+
+export interface TagsResponse {
+  content_id: number;
+  tags: Tag[];
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// What the client knows about the API it talks to, for diagnosing problems
+export interface MatterDiagnostics {
+  apiUrl: string;
+  strictSchemas: boolean;
+  schemaDrift: SchemaDrift[];
+}
+
+// Result of a write applied to one item in a batch
+export interface BatchItemResult<T> {
+  contentId: number;
+  result?: T;
+  error?: string;
+}
+
+function parseResponseBody<T>(response: Response): Promise<T> {
+  // Deletes respond without a body
+  if (response.status === 204) {
+    return Promise.resolve(undefined as T);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Explain why no response arrived. fetch() reports the underlying problem,
+ * like a DNS failure, as the cause.
+ */
+function toNetworkError(error: unknown): MatterNetworkError {
+  const reason = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+  return new MatterNetworkError(
+    `Could not reach the Matter API: ${reason instanceof Error ? reason.message : String(reason)}`,
+    { cause: error }
+  );
+}
+
+/**
+ * A single request outside of a client, for logging in and refreshing tokens
+ */
+async function fetchOnce(url: string, init: RequestInit, config: MatterConfig): Promise<Response> {
+  try {
+    return await fetchWithTimeout(url, init, config.requestTimeoutMs);
+  } catch (error) {
+    throw error instanceof RequestTimeoutError ? error : toNetworkError(error);
   }
 }
 
+export interface MatterClientOptions {
+  // Where to keep the local copy of the library (default: in memory)
+  store?: LibraryStore;
+  // Minimum time between incremental syncs within this client
+  syncIntervalMs?: number;
+  // Where the Matter API lives (default: from the environment)
+  config?: MatterConfig;
+  // Where to record responses that don't match their schema (default: shared
+  // by the whole process)
+  schemaDriftLog?: SchemaDriftLog;
+}
+
+function getUpdatesFeedUrl(afterTimestamp: string): string {
+  return `/library_items/updates_feed/?after_timestamp=${encodeURIComponent(afterTimestamp)}&page=1`;
+}
+
+interface RequestContext {
+  signal?: AbortSignal;
+  // Time after which no more requests are made, in milliseconds since the epoch
+  deadline?: number;
+}
+
 export class MatterClient {
   private accessToken: string;
   private refreshToken: string;
-  private onTokenRefresh?: (tokens: MatterTokens) => void;
+  private onTokenRefresh?: (tokens: MatterTokens) => void | Promise<void>;
+  private store: LibraryStore;
+  private syncIntervalMs: number;
+  private config: MatterConfig;
+  private schemaDriftLog: SchemaDriftLog;
+  private library: LibraryIndex | null = null;
+  // Position in the updates feed saved by this client's last sync
+  private librarySyncedAt: string | null = null;
+  private searchIndex: { library: LibraryIndex; index: SearchIndex } | null = null;
+  private lastSyncTime = 0;
+  private syncInFlight: Promise<LibraryIndex> | null = null;
+  private refreshInFlight: Promise<boolean> | null = null;
+  // The MCP request on whose behalf requests are being made: its abort
+  // signal, and when its time for requests to Matter runs out
+  private requestContext = new AsyncLocalStorage<RequestContext>();
+  private libraryListeners = new Set<(changed: FeedEntry[]) => void>();
 
-  constructor(tokens: MatterTokens, onTokenRefresh?: (tokens: MatterTokens) => void) {
+  constructor(
+    tokens: MatterTokens,
+    onTokenRefresh?: (tokens: MatterTokens) => void | Promise<void>,
+    options: MatterClientOptions = {}
+  ) {
     this.accessToken = tokens.accessToken;
     this.refreshToken = tokens.refreshToken;
     this.onTokenRefresh = onTokenRefresh;
+    this.store = options.store ?? new MemoryLibraryStore();
+    this.syncIntervalMs = options.syncIntervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+    this.config = options.config ?? getMatterConfig();
+    this.schemaDriftLog = options.schemaDriftLog ?? getSchemaDriftLog();
+  }
+
+  /**
+   * Run `fn`, cancelling the Matter API requests it makes once `signal`
+   * aborts, e.g. when the MCP client cancels the request. Together those
+   * requests may take at most the configured total timeout.
+   */
+  withSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    const { totalTimeoutMs } = this.config;
+    const deadline = totalTimeoutMs > 0 ? Date.now() + totalTimeoutMs : undefined;
+    return this.requestContext.run({ signal, deadline }, fn);
+  }
+
+  /**
+   * What the client knows about the Matter API, including any responses
+   * that didn't match their schema
+   */
+  getDiagnostics(): MatterDiagnostics {
+    return {
+      apiUrl: this.config.apiUrl,
+      strictSchemas: this.config.strictSchemas,
+      schemaDrift: this.schemaDriftLog.list(),
+    };
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    schema?: ResponseSchema<T>
   ): Promise<T> {
-    const url = endpoint.startsWith("http") ? endpoint : `${API_BASE}${endpoint}`;
+    const url = endpoint.startsWith("http") ? endpoint : `${this.config.apiUrl}${endpoint}`;
+    const method = options.method ?? "GET";
+    const { signal, deadline } = this.requestContext.getStore() ?? {};
+    const remainingMs = () => (deadline === undefined ? Number.POSITIVE_INFINITY : deadline - Date.now());
+    let refreshed = false;
 
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${this.accessToken}`,
-    };
+    for (let attempt = 0; ; attempt++) {
+      if (remainingMs() <= 0) {
+        throw new TotalTimeoutError(this.config.totalTimeoutMs);
+      }
+      // An attempt can't outlast the time left for the whole call
+      const timeoutMs = Math.min(this.config.requestTimeoutMs || Number.POSITIVE_INFINITY, remainingMs());
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
+      const accessToken = this.accessToken;
+      let response: Response;
+      try {
+        response = await fetchWithTimeout(
+          url,
+          {
+            ...options,
+            headers: {
+              "Content-Type": "application/json",
+              "Authorization": `Bearer ${accessToken}`,
+            },
+          },
+          Number.isFinite(timeoutMs) ? timeoutMs : 0,
+          signal
+        );
+      } catch (error) {
+        // Timed out or no response at all
+        if (signal?.aborted) {
+          throw error;
+        }
+        if (error instanceof RequestTimeoutError && remainingMs() <= 0) {
+          throw new TotalTimeoutError(this.config.totalTimeoutMs);
+        }
+        const delay = getRetryDelay(attempt) ?? 0;
+        if (attempt >= this.config.maxRetries || !isRetryable(method) || delay >= remainingMs()) {
+          if (error instanceof RequestTimeoutError) {
+            throw error;
+          }
+          throw toNetworkError(error);
+        }
+        await sleep(delay, signal);
+        continue;
+      }
 
-    if (response.status === 401) {
-      // Try to refresh the token
-      const refreshed = await this.refreshAccessToken();
-      if (refreshed) {
+      if (response.status === 401 && !refreshed) {
+        refreshed = true;
+        await response.body?.cancel();
         // Retry the request with the new token
-        headers["Authorization"] = `Bearer ${this.accessToken}`;
-        const retryResponse = await fetch(url, {
-          ...options,
-          headers,
-        });
+        if (await this.refreshAccessToken(accessToken)) {
+          continue;
+        }
+        throw new MatterAuthError("Matter rejected the login and it could not be refreshed");
+      }
 
-        if (!retryResponse.ok) {
-          throw new MatterAPIError(
-            `Request failed after token refresh: ${retryResponse.statusText}`,
-            retryResponse.status
-          );
+      if (attempt < this.config.maxRetries && isRetryable(method, response.status)) {
+        const delay = getRetryDelay(attempt, response.headers.get("Retry-After"));
+        if (delay !== null && delay < remainingMs()) {
+          await response.body?.cancel();
+          await sleep(delay, signal);
+          continue;
         }
-        return retryResponse.json() as Promise<T>;
       }
-      throw new MatterAPIError("Authentication failed", 401);
-    }
 
-    if (!response.ok) {
-      let errorBody: unknown;
-      try {
-        errorBody = await response.json();
-      } catch {
-        errorBody = await response.text();
+      if (!response.ok) {
+        let errorBody: unknown;
+        try {
+          errorBody = await response.json();
+        } catch {
+          errorBody = await response.text().catch(() => undefined);
+        }
+        const message = refreshed
+          ? `Request failed after token refresh: ${response.status} ${response.statusText}`
+          : `Request failed: ${response.status} ${response.statusText}`;
+        if (response.status === 429) {
+          throw new MatterRateLimitError(message, parseRetryAfter(response.headers.get("Retry-After")), errorBody);
+        }
+        throw createAPIError(message, response.status, errorBody);
       }
-      throw new MatterAPIError(
-        `Request failed: ${response.statusText}`,
-        response.status,
-        errorBody
-      );
-    }
 
-    return response.json() as Promise<T>;
+      const body = await parseResponseBody<unknown>(response);
+      if (!schema) {
+        return body as T;
+      }
+      return parseResponse(schema, body, {
+        status: response.status,
+        strict: this.config.strictSchemas,
+        driftLog: this.schemaDriftLog,
+      });
+    }
   }
 
-  private async refreshAccessToken(): Promise<boolean> {
-    try {
-      const response = await fetch(`${API_BASE}/token/refresh/`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ refresh_token: this.refreshToken }),
-      });
+  /**
+   * Refresh the access token after `staleAccessToken` was rejected.
+   * Concurrent requests share a single refresh, since Matter rotates the
+   * refresh token and only the first refresh with it would succeed.
+   */
+  private async refreshAccessToken(staleAccessToken: string): Promise<boolean> {
+    // Another request already refreshed the token
+    if (this.accessToken !== staleAccessToken) {
+      return true;
+    }
 
-      if (!response.ok) {
-        return false;
-      }
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.refreshTokenPair().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
 
-      const data = await response.json() as TokenRefreshResponse;
-      this.accessToken = data.access_token;
-      this.refreshToken = data.refresh_token;
+  private async refreshTokenPair(): Promise<boolean> {
+    try {
+      const tokens = await MatterClient.refreshTokens(this.refreshToken, this.config);
+      this.accessToken = tokens.accessToken;
+      this.refreshToken = tokens.refreshToken;
 
+      // Wait for the new tokens to be saved, since the old refresh token no
+      // longer works
       if (this.onTokenRefresh) {
-        this.onTokenRefresh({
+        await this.onTokenRefresh({
           accessToken: this.accessToken,
           refreshToken: this.refreshToken,
         });
@@ -280,126 +514,541 @@ export class MatterClient {
    * Get all articles from the user's library (updates feed)
    * Supports pagination through the feed
    */
-  async getArticles(options?: {
-    limit?: number;
-    page?: number;
-    afterTimestamp?: string;
-  }): Promise<{ articles: FeedEntry[]; nextUrl: string | null; queueCount?: number; archiveCount?: number }> {
+  async getArticles(options?: { limit?: number; afterTimestamp?: string }): Promise<{
+    articles: FeedEntry[];
+    queueCount?: number;
+    archiveCount?: number;
+  }> {
     const allArticles: FeedEntry[] = [];
     const limit = options?.limit || 100;
-    let page = options?.page || 1;
 
     // Use a very old timestamp to get all articles, or use provided timestamp
-    const afterTimestamp = options?.afterTimestamp || "1970-01-01T00:00:00.000000+00:00";
+    const afterTimestamp = options?.afterTimestamp || EPOCH_TIMESTAMP;
 
-    let hasMore = true;
+    let url: string | null = getUpdatesFeedUrl(afterTimestamp);
+    let isFirstPage = true;
     let queueCount: number | undefined;
     let archiveCount: number | undefined;
 
-    while (hasMore && allArticles.length < limit) {
-      const url = `/library_items/updates_feed/?after_timestamp=${encodeURIComponent(afterTimestamp)}&page=${page}`;
-      const response: FeedResponse = await this.request<FeedResponse>(url);
-
-      allArticles.push(...response.feed);
+    while (url) {
+      const response: FeedResponse = await this.request(url, {}, FEED_RESPONSE_SCHEMA);
 
       // Store counts from first response
-      if (page === 1) {
+      if (isFirstPage) {
         queueCount = response.queue_count;
         archiveCount = response.archive_count;
+        isFirstPage = false;
       }
 
-      hasMore = response.next !== null;
-      page++;
-
+      allArticles.push(...response.feed);
       if (allArticles.length >= limit) {
-        return {
-          articles: allArticles.slice(0, limit),
-          nextUrl: response.next,
-          queueCount,
-          archiveCount,
-        };
+        return { articles: allArticles.slice(0, limit), queueCount, archiveCount };
       }
+
+      url = response.next;
     }
 
-    return {
-      articles: allArticles,
-      nextUrl: null,
-      queueCount,
-      archiveCount,
+    return { articles: allArticles, queueCount, archiveCount };
+  }
+
+  /**
+   * Bring the local library up to date and return all of its entries.
+   * Only updates newer than the last sync are fetched, unless `refresh`
+   * is set, in which case the whole library is re-downloaded.
+   */
+  async getLibrary(options?: { refresh?: boolean }): Promise<FeedEntry[]> {
+    const library = await this.loadLibrary(options?.refresh ?? false);
+    return library.entries;
+  }
+
+  private async loadLibrary(refresh: boolean): Promise<LibraryIndex> {
+    // Reuse a recent sync instead of hitting the API on every call
+    if (!refresh && this.library && this.isLibraryFresh()) {
+      return this.library;
+    }
+
+    // Share a running sync between concurrent callers. It runs outside the
+    // caller's abort signal, so one cancelled caller doesn't fail the others,
+    // but within the time left for the caller that started it.
+    const { signal, deadline } = this.requestContext.getStore() ?? {};
+    if (!this.syncInFlight) {
+      this.syncInFlight = this.requestContext.run({ deadline }, () => this.syncLibrary(refresh)).finally(() => {
+        this.syncInFlight = null;
+      });
+    } else if (refresh) {
+      await raceSignal(this.syncInFlight.catch(() => undefined), signal);
+      return this.loadLibrary(refresh);
+    }
+    return raceSignal(this.syncInFlight, signal);
+  }
+
+  private async syncLibrary(refresh: boolean): Promise<LibraryIndex> {
+    const snapshot = refresh ? null : await this.store.load();
+    const afterTimestamp = snapshot?.lastSyncedAt || EPOCH_TIMESTAMP;
+    const syncStartedAt = Date.now();
+    // Continue a sync that was cut short, e.g. by the time limit of a tool
+    // call, where it left off
+    const pending = snapshot?.pending ?? {
+      nextPage: getUpdatesFeedUrl(afterTimestamp),
+      lastSyncedAt: new Date(syncStartedAt - SYNC_OVERLAP_MS).toISOString(),
     };
+
+    // Merge updates into the existing entries by content ID
+    const entries = new Map<number, FeedEntry>();
+    for (const entry of snapshot?.entries ?? []) {
+      entries.set(entry.content.id, entry);
+    }
+    const changed: FeedEntry[] = [];
+
+    // Until the whole feed has been walked, only updates after
+    // afterTimestamp are known to be in the library
+    let nextPage: string | null = pending.nextPage;
+    let lastCheckpoint = syncStartedAt;
+    const checkpoint = (page: string) =>
+      this.store.save({
+        lastSyncedAt: afterTimestamp,
+        entries: [...entries.values()],
+        pending: { nextPage: page, lastSyncedAt: pending.lastSyncedAt },
+      });
+
+    while (nextPage) {
+      let response: FeedResponse;
+      try {
+        response = await this.request(nextPage, {}, FEED_RESPONSE_SCHEMA);
+      } catch (error) {
+        // Keep the pages fetched so far
+        if (nextPage !== pending.nextPage) {
+          await checkpoint(nextPage).catch(() => undefined);
+        }
+        throw error;
+      }
+
+      for (const entry of response.feed) {
+        // Syncs overlap, so the same update is usually seen more than once
+        const previous = entries.get(entry.content.id);
+        if (!previous || JSON.stringify(previous) !== JSON.stringify(entry)) {
+          changed.push(entry);
+        }
+        entries.set(entry.content.id, entry);
+      }
+
+      nextPage = response.next;
+      if (nextPage && Date.now() - lastCheckpoint >= SYNC_CHECKPOINT_INTERVAL_MS) {
+        await checkpoint(nextPage);
+        lastCheckpoint = Date.now();
+      }
+    }
+
+    const merged = [...entries.values()];
+    const lastSyncedAt = pending.lastSyncedAt;
+    await this.store.save({ lastSyncedAt, entries: merged });
+
+    // Keep the indexes built for the previous sync if it saved the snapshot
+    // this sync started from and no update changed it
+    const unchanged =
+      changed.length === 0 && !snapshot?.pending && snapshot?.lastSyncedAt === this.librarySyncedAt;
+    const library = unchanged && this.library ? this.library : new LibraryIndex(merged);
+    this.library = library;
+    this.librarySyncedAt = lastSyncedAt;
+    this.lastSyncTime = syncStartedAt;
+
+    if (changed.length > 0) {
+      for (const listener of this.libraryListeners) {
+        listener(changed);
+      }
+    }
+
+    return library;
+  }
+
+  /**
+   * Bring the local library up to date and return its full-text search
+   * index. The index is built once and only rebuilt after a sync, including
+   * the one that follows a write, changed the library.
+   */
+  async getSearchIndex(options?: { refresh?: boolean }): Promise<SearchIndex> {
+    const library = await this.loadLibrary(options?.refresh ?? false);
+    if (this.searchIndex?.library !== library) {
+      this.searchIndex = { library, index: new SearchIndex(library.entries) };
+    }
+    return this.searchIndex.index;
   }
 
   /**
-   * Get a specific article by its ID
+   * Register a listener for entries that were added or changed by a sync.
+   * Returns a function that removes the listener.
    */
-  async getArticle(articleId: string): Promise<FeedEntry | null> {
-    // The API doesn't have a direct endpoint for single articles,
-    // so we need to paginate through the feed to find it
-    const afterTimestamp = "1970-01-01T00:00:00.000000+00:00";
-    let page = 1;
-    let hasMore = true;
-
-    // Parse the articleId - it could be a string like "111847745" or a number
-    const numericId = parseInt(articleId, 10);
-
-    while (hasMore) {
-      const url = `/library_items/updates_feed/?after_timestamp=${encodeURIComponent(afterTimestamp)}&page=${page}`;
-      const feedResponse: FeedResponse = await this.request<FeedResponse>(url);
-
-      const article = feedResponse.feed.find(
-        (entry: FeedEntry) =>
-          entry.id === articleId ||
-          entry.content.id === numericId ||
-          String(entry.content.id) === articleId
-      );
-
-      if (article) {
+  onLibraryChange(listener: (changed: FeedEntry[]) => void): () => void {
+    this.libraryListeners.add(listener);
+    return () => {
+      this.libraryListeners.delete(listener);
+    };
+  }
+
+  private isLibraryFresh(): boolean {
+    return Date.now() - this.lastSyncTime < this.syncIntervalMs;
+  }
+
+  /**
+   * Make the next library read check for updates, e.g. after a write
+   */
+  private invalidateLibrary(): void {
+    this.lastSyncTime = 0;
+  }
+
+  /**
+   * Get a specific article by its content ID, feed entry ID or URL.
+   * This looks the article up in the indexed local library rather than
+   * fetching it directly: the only per-item endpoint, /library_items/{id}/,
+   * is unconfirmed (see updateLibrary) and would at best return the library
+   * record rather than the article with its text and highlights, and there
+   * is no endpoint for looking up a URL at all.
+   */
+  async getArticle(idOrUrl: string, options?: { refresh?: boolean }): Promise<FeedEntry | null> {
+    if (!options?.refresh && this.library && this.isLibraryFresh()) {
+      const article = this.library.find(idOrUrl);
+      if (article || Date.now() - this.lastSyncTime < MIN_LOOKUP_SYNC_INTERVAL_MS) {
         return article;
       }
-
-      hasMore = feedResponse.next !== null;
-      page++;
+      // The article may have been saved since the last sync
+      this.invalidateLibrary();
     }
 
-    return null;
+    const library = await this.loadLibrary(options?.refresh ?? false);
+    return library.find(idOrUrl);
   }
 
   /**
    * Save a new article to Matter queue
-   * Uses the web.getmatter.com/api/save endpoint
+   * Uses the save endpoint of the web app rather than the API
    */
   async saveArticle(url: string): Promise<SaveArticleResponse> {
-    const response = await this.request<SaveArticleResponse>(
-      "https://web.getmatter.com/api/save",
+    const response = await this.request(
+      `${this.config.webUrl}/api/save`,
       {
         method: "POST",
         body: JSON.stringify({
           url,
           user_agent: "Matter MCP Server/1.0",
         }),
+      },
+      SAVE_ARTICLE_RESPONSE_SCHEMA
+    );
+    this.invalidateLibrary();
+    return response;
+  }
+
+  /**
+   * Update fields of an item's library record. No known client uses this
+   * endpoint, so it is experimental.
+   */
+  private async updateLibrary(
+    contentId: number,
+    fields: Partial<Pick<Library, "library_state" | "is_favorited" | "rating">>
+  ): Promise<Library> {
+    const library = await this.request(
+      `/library_items/${contentId}/`,
+      {
+        method: "PATCH",
+        body: JSON.stringify(fields),
+      },
+      LIBRARY_SCHEMA
+    );
+    this.invalidateLibrary();
+    return library;
+  }
+
+  /**
+   * Move an item between the queue, later and archive
+   */
+  async updateLibraryState(contentId: number, state: LibraryState): Promise<Library> {
+    return this.updateLibrary(contentId, { library_state: state });
+  }
+
+  /**
+   * Move several items to the same library state. Items are updated one at a
+   * time so that a failure only affects that item.
+   */
+  async updateLibraryStates(contentIds: number[], state: LibraryState): Promise<BatchItemResult<Library>[]> {
+    const results: BatchItemResult<Library>[] = [];
+    for (const contentId of contentIds) {
+      try {
+        results.push({ contentId, result: await this.updateLibraryState(contentId, state) });
+      } catch (error) {
+        results.push({ contentId, error: error instanceof Error ? error.message : String(error) });
       }
+    }
+    return results;
+  }
+
+  /**
+   * Favorite or unfavorite an item
+   */
+  async setFavorited(contentId: number, isFavorited: boolean): Promise<Library> {
+    return this.updateLibrary(contentId, { is_favorited: isFavorited });
+  }
+
+  /**
+   * Set an item's rating, or clear it with null
+   */
+  async setRating(contentId: number, rating: number | null): Promise<Library> {
+    return this.updateLibrary(contentId, { rating });
+  }
+
+  /**
+   * Set an item's note, replacing any existing note. Pass null to clear it.
+   * No known client uses this endpoint, so it is experimental.
+   */
+  async setNote(contentId: number, note: string | null): Promise<NoteResponse> {
+    const response = await this.request(
+      `/library_items/${contentId}/note/`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ note }),
+      },
+      NOTE_RESPONSE_SCHEMA
     );
+    this.invalidateLibrary();
     return response;
   }
 
+  /**
+   * Append text to an item's note as a new paragraph, creating the note if
+   * there isn't one yet
+   */
+  async appendToNote(contentId: number, text: string): Promise<NoteResponse> {
+    // The whole note is written back, so catch up on changes made elsewhere
+    // first rather than appending to a cached copy that may be outdated
+    this.invalidateLibrary();
+    const entry = await this.getArticle(String(contentId));
+    if (!entry) {
+      throw new MatterNotFoundError(`Article ${contentId} not found`);
+    }
+
+    const existing = entry.content.my_note?.trimEnd();
+    return this.setNote(contentId, existing ? `${existing}\n\n${text}` : text);
+  }
+
+  /**
+   * List all tags used across the library, most used first
+   */
+  async getTags(options?: { refresh?: boolean }): Promise<TagCount[]> {
+    const entries = await this.getLibrary(options);
+
+    // Group case variants of the same tag, keeping the first spelling seen
+    const counts = new Map<string, TagCount>();
+    for (const entry of entries) {
+      for (const tag of entry.content.tags || []) {
+        const key = tag.name.toLowerCase();
+        const existing = counts.get(key);
+        if (existing) {
+          existing.count++;
+        } else {
+          counts.set(key, { name: tag.name, count: 1 });
+        }
+      }
+    }
+
+    return [...counts.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add a tag to an item, returning the item's tags afterwards. No known
+   * client uses the tag endpoints, so they are experimental.
+   */
+  async addTag(contentId: number, name: string): Promise<Tag[]> {
+    const response = await this.request(
+      `/library_items/${contentId}/tags/`,
+      {
+        method: "POST",
+        body: JSON.stringify({ name }),
+      },
+      TAGS_RESPONSE_SCHEMA
+    );
+    this.invalidateLibrary();
+    return response.tags;
+  }
+
+  /**
+   * Remove a tag from an item
+   */
+  async removeTag(contentId: number, name: string): Promise<void> {
+    await this.request<void>(`/library_items/${contentId}/tags/${encodeURIComponent(name)}/`, {
+      method: "DELETE",
+    });
+    this.invalidateLibrary();
+  }
+
+  /**
+   * Add and remove tags on several items. Each item is updated
+   * independently so that a failure only affects that item.
+   */
+  async updateTags(
+    contentIds: number[],
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<BatchItemResult<Tag[]>[]> {
+    const results: BatchItemResult<Tag[]>[] = [];
+    for (const contentId of contentIds) {
+      try {
+        let tags: Tag[] | undefined;
+        for (const name of changes.add ?? []) {
+          tags = await this.addTag(contentId, name);
+        }
+        for (const name of changes.remove ?? []) {
+          await this.removeTag(contentId, name);
+          tags = tags?.filter((t) => t.name.toLowerCase() !== name.toLowerCase());
+        }
+        results.push({ contentId, result: tags ?? (await this.getArticle(String(contentId)))?.content.tags ?? [] });
+      } catch (error) {
+        results.push({ contentId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Rename a tag on every item that carries it. Renaming to a tag that
+   * already exists merges the two.
+   */
+  async renameTag(from: string, to: string): Promise<BatchItemResult<Tag[]>[]> {
+    const entries = await this.getLibrary({ refresh: false });
+    const tagged = entries.filter((entry) =>
+      (entry.content.tags || []).some((t) => t.name.toLowerCase() === from.toLowerCase())
+    );
+
+    const results: BatchItemResult<Tag[]>[] = [];
+    for (const entry of tagged) {
+      const contentId = entry.content.id;
+      try {
+        // Add the new tag first so a failure never leaves the item untagged
+        const hasTarget = entry.content.tags.some((t) => t.name === to);
+        let tags = hasTarget ? entry.content.tags : await this.addTag(contentId, to);
+        for (const tag of entry.content.tags.filter((t) => t.name.toLowerCase() === from.toLowerCase())) {
+          // When only the case changes, the target spelling matches too
+          if (tag.name === to) {
+            continue;
+          }
+          await this.removeTag(contentId, tag.name);
+          tags = tags.filter((t) => t.name !== tag.name);
+        }
+        results.push({ contentId, result: tags });
+      } catch (error) {
+        results.push({ contentId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Create a highlight on an item covering the given word range. No known
+   * client writes highlights, so the annotation endpoints are experimental.
+   */
+  async createHighlight(
+    contentId: number,
+    highlight: { text: string; wordStart: number; wordEnd: number; note?: string | null }
+  ): Promise<Annotation> {
+    const annotation = await this.request(
+      `/library_items/${contentId}/annotations/`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          text: highlight.text,
+          word_start: highlight.wordStart,
+          word_end: highlight.wordEnd,
+          note: highlight.note ?? null,
+        }),
+      },
+      ANNOTATION_SCHEMA
+    );
+    this.invalidateLibrary();
+    return annotation;
+  }
+
+  /**
+   * Set or clear the note on a highlight
+   */
+  async updateHighlightNote(annotationId: string, note: string | null): Promise<Annotation> {
+    const annotation = await this.request(
+      `/annotations/${encodeURIComponent(annotationId)}/`,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ note }),
+      },
+      ANNOTATION_SCHEMA
+    );
+    this.invalidateLibrary();
+    return annotation;
+  }
+
+  /**
+   * Delete a highlight
+   */
+  async deleteHighlight(annotationId: string): Promise<void> {
+    await this.request<void>(`/annotations/${encodeURIComponent(annotationId)}/`, {
+      method: "DELETE",
+    });
+    this.invalidateLibrary();
+  }
+
+  /**
+   * Static method to exchange a refresh token for a new token pair.
+   * Matter rotates refresh tokens, so the old one stops working.
+   */
+  static async refreshTokens(
+    refreshToken: string,
+    config: MatterConfig = getMatterConfig()
+  ): Promise<MatterTokens> {
+    const response = await fetchOnce(`${config.apiUrl}/token/refresh/`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    }, config);
+
+    if (!response.ok) {
+      throw createAPIError("Failed to refresh access token", response.status);
+    }
+
+    const data = parseResponse(TOKEN_REFRESH_RESPONSE_SCHEMA, await response.json(), {
+      status: response.status,
+      strict: config.strictSchemas,
+      driftLog: getSchemaDriftLog(),
+    });
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+    };
+  }
+
+  /**
+   * Static method to end a Matter session as far as the API allows.
+   * Matter has no logout endpoint, but refresh tokens are single-use, so
+   * exchanging one and discarding the result invalidates it. The access
+   * token keeps working until it expires.
+   */
+  static async invalidateRefreshToken(
+    refreshToken: string,
+    config: MatterConfig = getMatterConfig()
+  ): Promise<void> {
+    await MatterClient.refreshTokens(refreshToken, config);
+  }
+
   /**
    * Static method to initiate QR code login flow
    * Returns a session token and QR code URL for the user to scan
    */
-  static async triggerQRLogin(): Promise<QRLoginResponse> {
-    const response = await fetch(`${API_BASE}/qr_login/trigger/`, {
+  static async triggerQRLogin(config: MatterConfig = getMatterConfig()): Promise<QRLoginResponse> {
+    const response = await fetchOnce(`${config.authUrl}/qr_login/trigger/`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({ client_type: "integration" }),
-    });
+    }, config);
 
     if (!response.ok) {
-      throw new MatterAPIError(
-        "Failed to initiate QR login",
-        response.status
-      );
+      throw createAPIError("Failed to initiate QR login", response.status);
     }
 
     return response.json() as Promise<QRLoginResponse>;
@@ -409,20 +1058,20 @@ export class MatterClient {
    * Static method to exchange QR session token for access tokens
    * Poll this after user scans QR code
    */
-  static async exchangeQRToken(sessionToken: string): Promise<QRExchangeResponse> {
-    const response = await fetch(`${API_BASE}/qr_login/exchange/`, {
+  static async exchangeQRToken(
+    sessionToken: string,
+    config: MatterConfig = getMatterConfig()
+  ): Promise<QRExchangeResponse> {
+    const response = await fetchOnce(`${config.authUrl}/qr_login/exchange/`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({ session_token: sessionToken }),
-    });
+    }, config);
 
     if (!response.ok) {
-      throw new MatterAPIError(
-        "Failed to exchange QR token",
-        response.status
-      );
+      throw createAPIError("Failed to exchange QR token", response.status);
     }
 
     return response.json() as Promise<QRExchangeResponse>;
@@ -0,0 +1,168 @@
+/**
+ * OAuth Clients
+ *
+ * Dynamically registered clients (RFC 7591) are encoded into their client ID
+ * and signed with the server-side secret, so the hosted server can check
+ * redirect URIs without storing registrations anywhere.
+ */
+
+import { createHmac, hkdfSync, timingSafeEqual } from "node:crypto";
+import { getOAuthSecret } from "./oauth-tokens.js";
+
+const MAX_REDIRECT_URIS = 10;
+const MAX_CLIENT_NAME_LENGTH = 200;
+
+// Schemes that would run code or read local data when redirected to
+const FORBIDDEN_SCHEMES = new Set(["javascript:", "data:", "file:", "blob:", "vbscript:", "about:"]);
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+export interface OAuthClient {
+  clientName?: string;
+  redirectUris: string[];
+  // Unix timestamp in seconds
+  issuedAt: number;
+}
+
+/**
+ * Derive the signing key for client IDs from the secret in the environment.
+ */
+export function getClientSigningKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  return Buffer.from(hkdfSync("sha256", getOAuthSecret(env), "", "getmatter-mcp-server oauth clients", 32));
+}
+
+function sign(key: Buffer, payload: string): Buffer {
+  return createHmac("sha256", key).update(payload).digest();
+}
+
+function isLoopback(url: URL): boolean {
+  return url.protocol === "http:" && LOOPBACK_HOSTS.has(url.hostname);
+}
+
+/**
+ * Check that a redirect URI is safe to register. Returns an error message,
+ * or null if the URI is fine.
+ */
+export function validateRedirectUri(redirectUri: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(redirectUri);
+  } catch {
+    return `Invalid redirect URI: ${redirectUri}`;
+  }
+
+  if (url.hash) {
+    return `Redirect URI must not contain a fragment: ${redirectUri}`;
+  }
+  if (FORBIDDEN_SCHEMES.has(url.protocol)) {
+    return `Redirect URI scheme is not allowed: ${redirectUri}`;
+  }
+  // Native apps may use loopback or private-use schemes (RFC 8252)
+  if (url.protocol === "http:" && !isLoopback(url)) {
+    return `Redirect URI must use https unless it points to localhost: ${redirectUri}`;
+  }
+  return null;
+}
+
+/**
+ * Check a redirect URI from an authorization request against the registered
+ * ones. URIs must match exactly, except that loopback URIs may use any port,
+ * since native apps pick one when they start (RFC 8252 section 7.3).
+ */
+export function isRegisteredRedirectUri(client: OAuthClient, redirectUri: string): boolean {
+  if (client.redirectUris.includes(redirectUri)) {
+    return true;
+  }
+
+  let requested: URL;
+  try {
+    requested = new URL(redirectUri);
+  } catch {
+    return false;
+  }
+  if (!isLoopback(requested)) {
+    return false;
+  }
+
+  return client.redirectUris.some((registeredUri) => {
+    const registered = new URL(registeredUri);
+    if (!isLoopback(registered)) {
+      return false;
+    }
+    registered.port = requested.port;
+    return registered.href === requested.href;
+  });
+}
+
+export interface ClientRegistrationError {
+  // Error code from RFC 7591 section 3.2.2
+  error: "invalid_redirect_uri" | "invalid_client_metadata";
+  description: string;
+}
+
+/**
+ * Check a client registration request. Returns null if the registration is
+ * fine.
+ */
+export function validateClientRegistration(
+  client: Omit<OAuthClient, "issuedAt">
+): ClientRegistrationError | null {
+  if (client.clientName !== undefined && client.clientName.length > MAX_CLIENT_NAME_LENGTH) {
+    return {
+      error: "invalid_client_metadata",
+      description: `Client name must be at most ${MAX_CLIENT_NAME_LENGTH} characters`,
+    };
+  }
+  if (client.redirectUris.length === 0) {
+    return { error: "invalid_redirect_uri", description: "At least one redirect URI is required" };
+  }
+  if (client.redirectUris.length > MAX_REDIRECT_URIS) {
+    return {
+      error: "invalid_redirect_uri",
+      description: `At most ${MAX_REDIRECT_URIS} redirect URIs can be registered`,
+    };
+  }
+
+  for (const redirectUri of client.redirectUris) {
+    const description = validateRedirectUri(redirectUri);
+    if (description) {
+      return { error: "invalid_redirect_uri", description };
+    }
+  }
+  return null;
+}
+
+export function encodeClientId(key: Buffer, client: OAuthClient): string {
+  const payload = Buffer.from(JSON.stringify(client)).toString("base64url");
+  return `${payload}.${sign(key, payload).toString("base64url")}`;
+}
+
+/**
+ * Decode and verify a client ID. Returns null if it wasn't issued by this
+ * server.
+ */
+export function decodeClientId(key: Buffer, clientId: string): OAuthClient | null {
+  const [payload, signature, ...rest] = clientId.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = sign(key, payload);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const client = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    if (
+      !Array.isArray(client.redirectUris) ||
+      !client.redirectUris.every((uri: unknown) => typeof uri === "string") ||
+      typeof client.issuedAt !== "number"
+    ) {
+      return null;
+    }
+    return client;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * OAuth Tokens
+ *
+ * The hosted server is stateless, so the authorization codes, access tokens
+ * and refresh tokens it hands out carry the Matter token pair themselves.
+ * They are encrypted and authenticated with AES-256-GCM using a server-side
+ * secret, so clients can neither read nor tamper with them.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  hkdfSync,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import type { MatterTokens } from "./matter-api.js";
+
+// Environment variable holding the server-side secret
+export const ENV_OAUTH_SECRET = "OAUTH_TOKEN_SECRET";
+
+const MIN_SECRET_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+// Authorization codes only need to survive the redirect back to the client
+export const AUTHORIZATION_CODE_LIFETIME_SECONDS = 5 * 60;
+// How long the user has to scan the QR code after opening the authorize page
+export const AUTHORIZATION_REQUEST_LIFETIME_SECONDS = 10 * 60;
+export const ACCESS_TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+// Used when the lifetime of the Matter access token can't be determined
+const DEFAULT_MATTER_TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+// Scopes a client can ask for. "read" gives access to the read-only tools,
+// "write" to the tools that change the library.
+export const OAUTH_SCOPES = ["read", "write"];
+// Granted when the client doesn't ask for a particular scope
+export const DEFAULT_SCOPE = "read write";
+
+/**
+ * Parse a space-separated scope (RFC 6749 section 3.3). Returns null if it
+ * contains a scope this server doesn't support.
+ */
+export function parseScope(scope: string): string[] | null {
+  const scopes = [...new Set(scope.split(" ").filter(Boolean))];
+  if (scopes.length === 0 || !scopes.every((s) => OAUTH_SCOPES.includes(s))) {
+    return null;
+  }
+  return OAUTH_SCOPES.filter((s) => scopes.includes(s));
+}
+
+export function isReadOnlyScope(scope: string): boolean {
+  return !scope.split(" ").includes("write");
+}
+
+/**
+ * The kind of token. It is bound to the ciphertext as associated data, so a
+ * token of one type can't be passed off as another.
+ */
+export type OAuthTokenType =
+  | "authorization_request"
+  | "authorization_code"
+  | "access_token"
+  | "refresh_token"
+  | "matter_tokens";
+
+/**
+ * Who a token was issued to, and what it lets them do.
+ */
+export interface OAuthGrant {
+  // Shared by all tokens issued from the same authorization, so revoking
+  // one token revokes them all
+  grantId: string;
+  clientId: string;
+  // Space-separated scopes
+  scope: string;
+}
+
+/**
+ * What an authorization code was issued for. The token endpoint checks that
+ * the code is redeemed by the same client, with the same redirect URI and
+ * the matching PKCE code verifier.
+ */
+export interface AuthorizationBinding extends Omit<OAuthGrant, "grantId"> {
+  redirectUri: string;
+  // S256 code challenge (RFC 7636)
+  codeChallenge: string;
+}
+
+export interface OAuthTokenPayload extends OAuthGrant {
+  // Unique ID, used to make authorization codes single-use
+  jti: string;
+  // Unix timestamp in seconds, or null for tokens that don't expire
+  exp: number | null;
+  accessToken: string;
+  refreshToken: string;
+  // Only present in authorization codes
+  binding?: AuthorizationBinding;
+}
+
+/**
+ * A pending authorization, handed to the authorize page while the user scans
+ * the QR code, so the exchange endpoint knows what to issue the code for.
+ */
+export interface AuthorizationRequestPayload {
+  jti: string;
+  exp: number;
+  sessionToken: string;
+  binding: AuthorizationBinding;
+}
+
+export type OAuthTokenVerification =
+  | { status: "valid"; payload: OAuthTokenPayload; tokens: MatterTokens }
+  | { status: "invalid" }
+  | { status: "expired" };
+
+/**
+ * Read the server-side secret from the environment.
+ * Throws if the secret is missing or too short to be safe.
+ */
+export function getOAuthSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env[ENV_OAUTH_SECRET];
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `${ENV_OAUTH_SECRET} must be set to a random string of at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+  return secret;
+}
+
+/**
+ * Derive the encryption key for tokens from the secret in the environment.
+ */
+export function getOAuthKey(env: NodeJS.ProcessEnv = process.env): Buffer {
+  return Buffer.from(hkdfSync("sha256", getOAuthSecret(env), "", "getmatter-mcp-server oauth tokens", 32));
+}
+
+/**
+ * When the Matter access token expires, as a Unix timestamp in seconds.
+ * Matter access tokens are JWTs, so this reads their `exp` claim, falling
+ * back to a default lifetime if the token can't be parsed.
+ */
+export function getAccessTokenExpiry(accessToken: string, now: number = Date.now()): number {
+  const fallback = Math.floor(now / 1000) + DEFAULT_MATTER_TOKEN_LIFETIME_SECONDS;
+
+  const [, payload] = accessToken.split(".");
+  if (!payload) {
+    return fallback;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    return typeof claims.exp === "number" ? claims.exp : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function isBinding(value: unknown): value is AuthorizationBinding {
+  const binding = value as AuthorizationBinding | null;
+  return (
+    typeof binding === "object" &&
+    binding !== null &&
+    typeof binding.clientId === "string" &&
+    typeof binding.redirectUri === "string" &&
+    typeof binding.codeChallenge === "string" &&
+    typeof binding.scope === "string"
+  );
+}
+
+function seal(key: Buffer, type: OAuthTokenType, payload: object): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(type));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), "utf-8"), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64url");
+}
+
+function open(key: Buffer, type: OAuthTokenType, token: string): Record<string, unknown> | null {
+  const data = Buffer.from(token, "base64url");
+  if (data.length <= IV_LENGTH + AUTH_TAG_LENGTH) {
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(type));
+    decipher.setAuthTag(data.subarray(data.length - AUTH_TAG_LENGTH));
+    const plaintext = Buffer.concat([
+      decipher.update(data.subarray(IV_LENGTH, data.length - AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+
+    const payload = JSON.parse(plaintext.toString("utf-8"));
+    if (
+      typeof payload !== "object" ||
+      payload === null ||
+      typeof payload.jti !== "string" ||
+      (payload.exp !== null && typeof payload.exp !== "number")
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    // Wrong key, wrong token type or tampered with
+    return null;
+  }
+}
+
+function isExpired(exp: number | null, now: number): boolean {
+  return exp !== null && exp <= Math.floor(now / 1000);
+}
+
+function issue(
+  key: Buffer,
+  type: OAuthTokenType,
+  tokens: MatterTokens,
+  grant: OAuthGrant,
+  exp: number | null,
+  binding?: AuthorizationBinding
+): string {
+  const payload: OAuthTokenPayload = {
+    jti: randomUUID(),
+    exp,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    grantId: grant.grantId,
+    clientId: grant.clientId,
+    scope: grant.scope,
+    binding,
+  };
+  return seal(key, type, payload);
+}
+
+export function issueAuthorizationRequest(
+  key: Buffer,
+  sessionToken: string,
+  binding: AuthorizationBinding,
+  now: number = Date.now()
+): string {
+  const payload: AuthorizationRequestPayload = {
+    jti: randomUUID(),
+    exp: Math.floor(now / 1000) + AUTHORIZATION_REQUEST_LIFETIME_SECONDS,
+    sessionToken,
+    binding,
+  };
+  return seal(key, "authorization_request", payload);
+}
+
+/**
+ * Open a pending authorization. Returns null if it is invalid or expired.
+ */
+export function verifyAuthorizationRequest(
+  key: Buffer,
+  token: string,
+  now: number = Date.now()
+): AuthorizationRequestPayload | null {
+  const payload = open(key, "authorization_request", token);
+  if (
+    !payload ||
+    typeof payload.exp !== "number" ||
+    typeof payload.sessionToken !== "string" ||
+    !isBinding(payload.binding) ||
+    isExpired(payload.exp, now)
+  ) {
+    return null;
+  }
+  return payload as unknown as AuthorizationRequestPayload;
+}
+
+export function issueAuthorizationCode(
+  key: Buffer,
+  tokens: MatterTokens,
+  binding: AuthorizationBinding,
+  now: number = Date.now()
+): string {
+  return issue(
+    key,
+    "authorization_code",
+    tokens,
+    { grantId: randomUUID(), clientId: binding.clientId, scope: binding.scope },
+    Math.floor(now / 1000) + AUTHORIZATION_CODE_LIFETIME_SECONDS,
+    binding
+  );
+}
+
+/**
+ * Issue an access token. It expires after a fixed lifetime, or earlier if the
+ * Matter access token inside it does.
+ */
+export function issueAccessToken(
+  key: Buffer,
+  tokens: MatterTokens,
+  grant: OAuthGrant,
+  now: number = Date.now()
+): { token: string; expiresAt: number } {
+  const expiresAt = Math.min(
+    Math.floor(now / 1000) + ACCESS_TOKEN_LIFETIME_SECONDS,
+    getAccessTokenExpiry(tokens.accessToken, now)
+  );
+  return { token: issue(key, "access_token", tokens, grant, expiresAt), expiresAt };
+}
+
+/**
+ * Issue a refresh token. It has no expiry of its own, since Matter decides
+ * how long its refresh token stays valid.
+ */
+export function issueRefreshToken(key: Buffer, tokens: MatterTokens, grant: OAuthGrant): string {
+  return issue(key, "refresh_token", tokens, grant, null);
+}
+
+export function verifyToken(
+  key: Buffer,
+  type: Exclude<OAuthTokenType, "authorization_request" | "matter_tokens">,
+  token: string,
+  now: number = Date.now()
+): OAuthTokenVerification {
+  const payload = open(key, type, token);
+  if (
+    !payload ||
+    typeof payload.accessToken !== "string" ||
+    typeof payload.refreshToken !== "string" ||
+    typeof payload.grantId !== "string" ||
+    typeof payload.clientId !== "string" ||
+    typeof payload.scope !== "string" ||
+    (type === "authorization_code" && !isBinding(payload.binding))
+  ) {
+    return { status: "invalid" };
+  }
+  if (isExpired(payload.exp as number | null, now)) {
+    return { status: "expired" };
+  }
+  return {
+    status: "valid",
+    payload: payload as unknown as OAuthTokenPayload,
+    tokens: { accessToken: payload.accessToken, refreshToken: payload.refreshToken },
+  };
+}
+
+/**
+ * Seal a Matter token pair on its own, so it can be kept outside of the
+ * tokens handed to clients without exposing it.
+ */
+export function sealMatterTokens(key: Buffer, tokens: MatterTokens): string {
+  return seal(key, "matter_tokens", {
+    jti: randomUUID(),
+    exp: null,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  });
+}
+
+/**
+ * Open a sealed Matter token pair. Returns null if it is invalid.
+ */
+export function openMatterTokens(key: Buffer, sealed: string): MatterTokens | null {
+  const payload = open(key, "matter_tokens", sealed);
+  if (!payload || typeof payload.accessToken !== "string" || typeof payload.refreshToken !== "string") {
+    return null;
+  }
+  return { accessToken: payload.accessToken, refreshToken: payload.refreshToken };
+}
+
+/**
+ * Compute the S256 code challenge for a PKCE code verifier (RFC 7636).
+ */
+export function computeCodeChallenge(codeVerifier: string): string {
+  return createHash("sha256").update(codeVerifier, "ascii").digest("base64url");
+}
+
+// RFC 7636 section 4.1: 43 to 128 unreserved characters
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+// An S256 challenge is a base64url-encoded SHA-256 hash
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export function isValidCodeChallenge(codeChallenge: string): boolean {
+  return CODE_CHALLENGE_PATTERN.test(codeChallenge);
+}
+
+export function verifyCodeVerifier(codeChallenge: string, codeVerifier: string): boolean {
+  if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    return false;
+  }
+  const expected = Buffer.from(codeChallenge);
+  const actual = Buffer.from(computeCodeChallenge(codeVerifier));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
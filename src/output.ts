@@ -0,0 +1,413 @@
+/**
+ * Matter MCP Server - Structured Tool Output
+ *
+ * Typed counterparts of the Markdown that tools return, sent as
+ * `structuredContent` so that clients can chain tool calls without parsing
+ * text, and the JSON Schemas that tools declare as their `outputSchema`.
+ * Field names and types follow the tool arguments, so the `id` of an article
+ * can be passed straight back as `article_id`.
+ */
+
+import { libraryStateToString, type Annotation, type BatchItemResult, type FeedEntry } from "./matter-api.js";
+import { getAuthorName, getPublishedDate, getPublisherName } from "./filters.js";
+import { getHighlights } from "./highlights.js";
+import type { ArticlePart } from "./chunks.js";
+
+export interface HighlightOutput {
+  id: string;
+  text: string;
+  note: string | null;
+  created_date: string;
+  word_start: number;
+  word_end: number;
+}
+
+export interface ArticleSummaryOutput {
+  id: string;
+  title: string;
+  url: string;
+  author: string | null;
+  publisher: string | null;
+  library_state: string | null;
+  is_favorited: boolean;
+  rating: number | null;
+  // Furthest point read, from 0 to 1
+  reading_progress: number | null;
+  reading_time_minutes: number | null;
+  tags: string[];
+  highlight_count: number;
+}
+
+export interface ArticleOutput extends ArticleSummaryOutput {
+  published_date: string | null;
+  word_count: number | null;
+  excerpt: string | null;
+  note: string | null;
+  highlights?: HighlightOutput[];
+}
+
+export interface ArticleBodyOutput {
+  part: number;
+  total_parts: number;
+  // Character range of the part within the whole text
+  start: number;
+  end: number;
+  length: number;
+  text: string;
+  next_cursor: string | null;
+}
+
+export interface BatchItemOutput {
+  article_id: string;
+  success: boolean;
+  error: string | null;
+}
+
+export function toHighlightOutput(annotation: Annotation): HighlightOutput {
+  return {
+    id: annotation.id,
+    text: annotation.text,
+    note: annotation.note,
+    created_date: annotation.created_date,
+    word_start: annotation.word_start,
+    word_end: annotation.word_end,
+  };
+}
+
+export function toArticleSummaryOutput(entry: FeedEntry): ArticleSummaryOutput {
+  const { content } = entry;
+  return {
+    id: String(content.id),
+    title: content.title,
+    url: content.url,
+    author: getAuthorName(content),
+    publisher: getPublisherName(content),
+    library_state: content.library ? libraryStateToString(content.library.library_state) : null,
+    is_favorited: content.library?.is_favorited ?? false,
+    rating: content.library?.rating ?? null,
+    reading_progress: content.history?.max_read_percentage ?? content.history?.last_read_percentage ?? null,
+    reading_time_minutes: content.article?.reading_time_minutes ?? null,
+    tags: (content.tags || []).map((t) => t.name),
+    highlight_count: getHighlights(entry).length,
+  };
+}
+
+export function toArticleOutput(entry: FeedEntry, options: { highlights: boolean }): ArticleOutput {
+  const { content } = entry;
+  return {
+    ...toArticleSummaryOutput(entry),
+    published_date: getPublishedDate(content),
+    word_count: content.article?.word_count ?? null,
+    excerpt: content.excerpt,
+    note: content.my_note,
+    highlights: options.highlights ? getHighlights(entry).map(toHighlightOutput) : undefined,
+  };
+}
+
+export function toArticleBodyOutput(part: ArticlePart): ArticleBodyOutput {
+  return {
+    part: part.part,
+    total_parts: part.totalParts,
+    start: part.start,
+    end: part.end,
+    length: part.length,
+    text: part.text,
+    next_cursor: part.nextCursor,
+  };
+}
+
+/**
+ * Report each item of a batch write, adding the fields that `describe`
+ * picks from successful results
+ */
+export function toBatchOutput<T, U extends object>(
+  results: BatchItemResult<T>[],
+  describe: (result: T) => U
+): Array<BatchItemOutput | (BatchItemOutput & U)> {
+  return results.map(({ contentId, result, error }) => {
+    const item: BatchItemOutput = { article_id: String(contentId), success: error === undefined, error: error ?? null };
+    return error === undefined ? { ...item, ...describe(result as T) } : item;
+  });
+}
+
+// JSON Schemas for the output of each tool
+
+const NULLABLE_STRING = { type: ["string", "null"] };
+const NULLABLE_NUMBER = { type: ["number", "null"] };
+const STRING_ARRAY = { type: "array", items: { type: "string" } };
+
+const HIGHLIGHT_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    text: { type: "string" },
+    note: NULLABLE_STRING,
+    created_date: { type: "string" },
+    word_start: { type: "integer" },
+    word_end: { type: "integer" },
+  },
+  required: ["id", "text", "note", "created_date", "word_start", "word_end"],
+};
+
+const ARTICLE_SUMMARY_PROPERTIES = {
+  id: { type: "string", description: "Article ID, as taken by article_id" },
+  title: { type: "string" },
+  url: { type: "string" },
+  author: NULLABLE_STRING,
+  publisher: NULLABLE_STRING,
+  library_state: { type: ["string", "null"], description: "QUEUE, LATER, ARCHIVE or FEED" },
+  is_favorited: { type: "boolean" },
+  rating: NULLABLE_NUMBER,
+  reading_progress: { type: ["number", "null"], description: "Furthest point read, from 0 to 1" },
+  reading_time_minutes: NULLABLE_NUMBER,
+  tags: STRING_ARRAY,
+  highlight_count: { type: "integer" },
+};
+
+const ARTICLE_SUMMARY_SCHEMA = {
+  type: "object",
+  properties: ARTICLE_SUMMARY_PROPERTIES,
+  required: Object.keys(ARTICLE_SUMMARY_PROPERTIES),
+};
+
+const ARTICLE_PROPERTIES = {
+  ...ARTICLE_SUMMARY_PROPERTIES,
+  published_date: NULLABLE_STRING,
+  word_count: NULLABLE_NUMBER,
+  excerpt: NULLABLE_STRING,
+  note: NULLABLE_STRING,
+  highlights: { type: "array", items: HIGHLIGHT_SCHEMA, description: "Left out in metadata and body modes" },
+};
+
+function batchOutputSchema(properties: Record<string, unknown>) {
+  return {
+    type: "object" as const,
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            article_id: { type: "string" },
+            success: { type: "boolean" },
+            error: NULLABLE_STRING,
+            ...properties,
+          },
+          required: ["article_id", "success", "error"],
+        },
+      },
+    },
+    required: ["results"],
+  };
+}
+
+export const LIST_ARTICLES_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    articles: { type: "array", items: ARTICLE_SUMMARY_SCHEMA },
+    total: { type: "integer", description: "Number of articles matching the filters, across all pages" },
+    next_cursor: { type: ["string", "null"], description: "Pass as cursor to get the next page" },
+  },
+  required: ["articles", "total", "next_cursor"],
+};
+
+export const GET_ARTICLE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    article: {
+      type: "object",
+      properties: ARTICLE_PROPERTIES,
+      required: Object.keys(ARTICLE_PROPERTIES).filter((key) => key !== "highlights"),
+    },
+    table_of_contents: {
+      type: "array",
+      description: "Headings of the article text",
+      items: {
+        type: "object",
+        properties: {
+          level: { type: "integer" },
+          title: { type: "string" },
+          part: { type: "integer", description: "Part of the text the heading is in" },
+        },
+        required: ["level", "title", "part"],
+      },
+    },
+    body: {
+      type: ["object", "null"],
+      description: "The requested part of the article text, or null if the article has no text",
+      properties: {
+        part: { type: "integer" },
+        total_parts: { type: "integer" },
+        start: { type: "integer", description: "Offset of the part within the whole text" },
+        end: { type: "integer" },
+        length: { type: "integer", description: "Length of the whole text" },
+        text: { type: "string" },
+        next_cursor: { type: ["string", "null"], description: "Pass as cursor to get the next part" },
+      },
+      required: ["part", "total_parts", "start", "end", "length", "text", "next_cursor"],
+    },
+  },
+  required: ["article", "table_of_contents"],
+};
+
+export const SEARCH_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    query: { type: "string" },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          article: ARTICLE_SUMMARY_SCHEMA,
+          score: { type: "number" },
+          matches: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                field: { type: "string" },
+                snippet: { type: "string" },
+              },
+              required: ["field", "snippet"],
+            },
+          },
+        },
+        required: ["article", "score", "matches"],
+      },
+    },
+  },
+  required: ["query", "results"],
+};
+
+export const UPDATE_LIBRARY_STATE_OUTPUT_SCHEMA = batchOutputSchema({
+  library_state: { type: "string" },
+  library_state_date: { type: "string" },
+});
+
+export const SET_FAVORITE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    article_id: { type: "string" },
+    is_favorited: { type: "boolean" },
+  },
+  required: ["article_id", "is_favorited"],
+};
+
+export const SET_RATING_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    article_id: { type: "string" },
+    rating: NULLABLE_NUMBER,
+  },
+  required: ["article_id", "rating"],
+};
+
+export const UPDATE_NOTE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    article_id: { type: "string" },
+    note: NULLABLE_STRING,
+  },
+  required: ["article_id", "note"],
+};
+
+export const LIST_TAGS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    tags: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          count: { type: "integer" },
+        },
+        required: ["name", "count"],
+      },
+    },
+  },
+  required: ["tags"],
+};
+
+export const UPDATE_TAGS_OUTPUT_SCHEMA = batchOutputSchema({
+  tags: STRING_ARRAY,
+});
+
+export const HIGHLIGHT_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    article_id: { type: "string" },
+    highlight: HIGHLIGHT_SCHEMA,
+  },
+  required: ["highlight"],
+};
+
+export const DELETE_HIGHLIGHT_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    highlight_id: { type: "string" },
+    deleted: { type: "boolean" },
+  },
+  required: ["highlight_id", "deleted"],
+};
+
+export const EXPORT_HIGHLIGHTS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    format: { type: "string" },
+    articles: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Article ID, as taken by article_id" },
+          title: { type: "string" },
+          author: NULLABLE_STRING,
+          publisher: NULLABLE_STRING,
+          url: { type: "string" },
+          library_state: NULLABLE_STRING,
+          tags: STRING_ARRAY,
+          note: NULLABLE_STRING,
+          highlights: { type: "array", items: HIGHLIGHT_SCHEMA },
+        },
+        required: ["id", "title", "author", "publisher", "url", "library_state", "tags", "note", "highlights"],
+      },
+    },
+  },
+  required: ["format", "articles"],
+};
+
+export const SAVE_ARTICLE_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    url: { type: "string" },
+    article_id: { type: "string" },
+    entry_id: { type: "integer" },
+  },
+  required: ["url", "article_id", "entry_id"],
+};
+
+export const DIAGNOSTICS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    api_url: { type: "string" },
+    strict_schemas: { type: "boolean" },
+    schema_drift: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          response: { type: "string" },
+          field: { type: "string" },
+          problem: { type: "string" },
+          count: { type: "integer" },
+          first_seen: { type: "string" },
+          last_seen: { type: "string" },
+        },
+        required: ["response", "field", "problem", "count", "first_seen", "last_seen"],
+      },
+    },
+  },
+  required: ["api_url", "strict_schemas", "schema_drift"],
+};
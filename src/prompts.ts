@@ -0,0 +1,271 @@
+/**
+ * Matter MCP Server - Prompts
+ *
+ * Parameterized prompts for common reading workflows. Each prompt embeds the
+ * relevant library data, so the model starts with everything it needs. Whole
+ * articles are embedded as resource content under their resource URI, while
+ * selections of articles or highlights are plain text, since no resource
+ * serves exactly that selection.
+ */
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { LibraryState, type FeedEntry, type MatterClient } from "./matter-api.js";
+import { getAuthorName, getReadProgress, getSavedDate, sortArticles } from "./filters.js";
+import { collectHighlights } from "./export.js";
+import { formatArticle } from "./format.js";
+import { articleResourceUri } from "./resources.js";
+
+const MARKDOWN_MIME_TYPE = "text/markdown";
+
+export const PROMPTS = [
+  {
+    name: "triage_queue",
+    description: "Go through the oldest or longest unread articles in your queue and decide what to read, defer or archive.",
+    arguments: [
+      {
+        name: "order",
+        description: "Which articles to triage first: \"oldest\" (default) or \"longest\"",
+        required: false,
+      },
+      {
+        name: "count",
+        description: "How many articles to triage (default: 10)",
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "summarize_article",
+    description: "Summarize an article from your library, taking your highlights and notes into account.",
+    arguments: [
+      {
+        name: "article_id",
+        description: "The ID of the article to summarize",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "weekly_highlights_digest",
+    description: "Write a digest of the highlights and notes you made recently.",
+    arguments: [
+      {
+        name: "days",
+        description: "How many days back to include (default: 7)",
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "read_in_minutes",
+    description: "Pick something from your queue that fits into the time you have.",
+    arguments: [
+      {
+        name: "minutes",
+        description: "How many minutes you have to read",
+        required: true,
+      },
+    ],
+  },
+];
+
+function parsePositiveInteger(name: string, value: string | undefined, defaultValue?: number): number {
+  if (value === undefined || value === "") {
+    if (defaultValue === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+    }
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `Argument ${name} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+function isUnread(entry: FeedEntry): boolean {
+  return (getReadProgress(entry.content) ?? 0) < 0.05;
+}
+
+function formatCandidate(entry: FeedEntry): string {
+  const { content } = entry;
+  const author = getAuthorName(content);
+  const minutes = content.article?.reading_time_minutes;
+  const saved = getSavedDate(content);
+  const progress = Math.round((getReadProgress(content) ?? 0) * 100);
+
+  const details = [
+    `ID: ${content.id}`,
+    minutes ? `${minutes} min` : "reading time unknown",
+    saved ? `saved ${saved.slice(0, 10)}` : null,
+    progress > 0 ? `${progress}% read` : null,
+  ].filter(Boolean);
+
+  return `- **${content.title}**${author ? ` by ${author}` : ""} (${details.join(", ")})${
+    content.excerpt ? `\n  ${content.excerpt}` : ""
+  }`;
+}
+
+function listMessage(title: string, entries: FeedEntry[]) {
+  return textMessage([`# ${title}`, "", ...entries.map(formatCandidate)].join("\n"));
+}
+
+function textMessage(text: string) {
+  return {
+    role: "user" as const,
+    content: { type: "text" as const, text },
+  };
+}
+
+async function triageQueue(client: MatterClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const order = args.order || "oldest";
+  if (order !== "oldest" && order !== "longest") {
+    throw new McpError(ErrorCode.InvalidParams, 'Argument order must be "oldest" or "longest"');
+  }
+  const count = parsePositiveInteger("count", args.count, 10);
+
+  const queue = (await client.getLibrary()).filter(
+    (entry) => entry.content.library?.library_state === LibraryState.QUEUE && isUnread(entry)
+  );
+  const sorted =
+    order === "oldest"
+      ? sortArticles(queue, "library_state_date", "asc")
+      : sortArticles(queue, "reading_time_minutes", "desc");
+  const selected = sorted.slice(0, count);
+
+  return {
+    description: `Triage the ${order} unread articles in the queue`,
+    messages: [
+      listMessage(`${selected.length} ${order} unread articles in my Matter queue`, selected),
+      textMessage(
+        `Help me triage these ${selected.length} unread articles from my Matter queue. For each one, recommend whether to read it soon, move it to Later, or archive it, with a one-line reason. Group the recommendations by action and list the article IDs so they can be moved with matter_update_library_state.`
+      ),
+    ],
+  };
+}
+
+async function summarizeArticle(client: MatterClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const articleId = args.article_id;
+  if (!articleId) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing required argument: article_id");
+  }
+
+  const entry = await client.getArticle(articleId);
+  if (!entry) {
+    throw new McpError(ErrorCode.InvalidParams, `Article with ID "${articleId}" not found`);
+  }
+
+  return {
+    description: `Summarize "${entry.content.title}"`,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: {
+            uri: articleResourceUri(entry.content.id),
+            mimeType: MARKDOWN_MIME_TYPE,
+            text: formatArticle(entry),
+          },
+        },
+      },
+      textMessage(
+        "Summarize this article from my Matter library. Start with a two-sentence overview, then list the key points. Pay particular attention to the passages I highlighted and any notes I wrote, and point out where the article supports or challenges them."
+      ),
+    ],
+  };
+}
+
+async function weeklyHighlightsDigest(client: MatterClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const days = parsePositiveInteger("days", args.days, 7);
+  const createdAfter = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const articles = collectHighlights(await client.getLibrary(), { createdAfter });
+
+  const messages: GetPromptResult["messages"] = articles.map(({ entry, highlights }) =>
+    textMessage(
+      [
+        `# ${entry.content.title}`,
+        ...highlights.map((h) => `\n> ${h.text}${h.note ? `\n  *Note: ${h.note}*` : ""}`),
+      ].join("\n")
+    )
+  );
+
+  messages.push(
+    textMessage(
+      articles.length > 0
+        ? `Above are the highlights I made in Matter over the last ${days} days, grouped by article. Write a digest: the main themes across my reading, the most interesting ideas with the article they came from, and any connections or tensions between articles.`
+        : `I didn't make any highlights in Matter over the last ${days} days. Suggest how I could get more out of my reading next week.`
+    )
+  );
+
+  return {
+    description: `Digest of highlights from the last ${days} days`,
+    messages,
+  };
+}
+
+async function readInMinutes(client: MatterClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const minutes = parsePositiveInteger("minutes", args.minutes);
+
+  // Prefer items that use most of the available time
+  const candidates = (await client.getLibrary())
+    .filter((entry) => {
+      const readingTime = entry.content.article?.reading_time_minutes;
+      return (
+        entry.content.library?.library_state === LibraryState.QUEUE &&
+        readingTime !== null &&
+        readingTime !== undefined &&
+        readingTime * (1 - (getReadProgress(entry.content) ?? 0)) <= minutes
+      );
+    });
+  const selected = sortArticles(candidates, "reading_time_minutes", "desc").slice(0, 15);
+
+  return {
+    description: `Pick something to read in ${minutes} minutes`,
+    messages: [
+      listMessage(`Articles in my Matter queue that fit into ${minutes} minutes`, selected),
+      textMessage(
+        selected.length > 0
+          ? `I have ${minutes} minutes to read. From the queue articles above, recommend one (or a couple that fit together) and explain briefly why. Account for articles I've already partly read.`
+          : `I have ${minutes} minutes to read, but nothing in my Matter queue fits. Suggest how I could use the time instead.`
+      ),
+    ],
+  };
+}
+
+const PROMPT_HANDLERS: Record<
+  string,
+  (client: MatterClient, args: Record<string, string>) => Promise<GetPromptResult>
+> = {
+  triage_queue: triageQueue,
+  summarize_article: summarizeArticle,
+  weekly_highlights_digest: weeklyHighlightsDigest,
+  read_in_minutes: readInMinutes,
+};
+
+/**
+ * Register prompt handlers on the server. The server must advertise the
+ * `prompts` capability.
+ */
+export function registerPrompts(server: Server, client: MatterClient): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const handler = PROMPT_HANDLERS[name];
+    if (!handler) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    return client.withSignal(extra.signal, () => handler(client, args ?? {}));
+  });
+}
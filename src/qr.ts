@@ -0,0 +1,507 @@
+/**
+ * QR Code Encoder
+ *
+ * A small QR code generator (byte mode, versions 1-40), so that login session
+ * tokens never have to be sent to a third-party service to be rendered.
+ * Follows ISO/IEC 18004, closely modelled on Project Nayuki's reference
+ * implementation.
+ */
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+const ECC_LEVEL_INDEX: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECC_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by error correction level, then version (index 0 is unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, ecl: ErrorCorrectionLevel): number {
+  const level = ECC_LEVEL_INDEX[ecl];
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  );
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+export class QrCode {
+  readonly size: number;
+  private readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  /**
+   * Encode text (as UTF-8 bytes) using the smallest version that fits
+   */
+  static encode(text: string, ecl: ErrorCorrectionLevel = "M"): QrCode {
+    const bytes = [...Buffer.from(text, "utf-8")];
+
+    for (let version = 1; version <= 40; version++) {
+      const capacityBits = getNumDataCodewords(version, ecl) * 8;
+      const countBits = version <= 9 ? 8 : 16;
+      const usedBits = 4 + countBits + bytes.length * 8;
+      if (bytes.length >= 1 << countBits || usedBits > capacityBits) {
+        continue;
+      }
+
+      const bits: number[] = [];
+      const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+          bits.push((value >>> i) & 1);
+        }
+      };
+
+      // Byte mode indicator, character count and data
+      append(0x4, 4);
+      append(bytes.length, countBits);
+      for (const byte of bytes) {
+        append(byte, 8);
+      }
+
+      // Terminator and padding up to the capacity
+      append(0, Math.min(4, capacityBits - bits.length));
+      append(0, (8 - (bits.length % 8)) % 8);
+      for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+        append(pad, 8);
+      }
+
+      const codewords: number[] = [];
+      for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+      }
+      return new QrCode(version, ecl, codewords);
+    }
+
+    throw new Error("Data too long to fit in a QR code");
+  }
+
+  private constructor(
+    readonly version: number,
+    readonly errorCorrectionLevel: ErrorCorrectionLevel,
+    dataCodewords: number[]
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+
+    this.drawFunctionPatterns();
+    this.drawCodewords(this.addEccAndInterleave(dataCodewords));
+
+    // Pick the mask with the lowest penalty
+    let bestMask = 0;
+    let minPenalty = Number.POSITIVE_INFINITY;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.getPenaltyScore();
+      if (penalty < minPenalty) {
+        bestMask = mask;
+        minPenalty = penalty;
+      }
+      // Masks are XORs, so applying one again undoes it
+      this.applyMask(mask);
+    }
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+  }
+
+  /**
+   * Whether the module at the given coordinates is dark. Coordinates outside
+   * the symbol (e.g. in the quiet zone) are light.
+   */
+  isDark(x: number, y: number): boolean {
+    return x >= 0 && x < this.size && y >= 0 && y < this.size && this.modules[y][x];
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean): void {
+    this.modules[y][x] = isDark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    // Timing patterns
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns in three corners
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    // Alignment patterns, except where they would overlap the finders
+    const positions = this.getAlignmentPatternPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(x, y);
+        }
+      });
+    });
+
+    // Reserve the format areas, then draw the version information
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (ECC_FORMAT_BITS[this.errorCorrectionLevel] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // First copy, around the top left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunctionModule(8, i, getBit(bits, i));
+    }
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunctionModule(14 - i, 8, getBit(bits, i));
+    }
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    }
+    // Always dark
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const isDark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, isDark);
+      this.setFunctionModule(b, a, isDark);
+    }
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+    for (let position = this.size - 7; result.length < numAlign; position -= step) {
+      result.splice(1, 0, position);
+    }
+    return result;
+  }
+
+  private addEccAndInterleave(data: number[]): number[] {
+    const level = ECC_LEVEL_INDEX[this.errorCorrectionLevel];
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][this.version];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][this.version];
+    const rawCodewords = Math.floor(getNumRawDataModules(this.version) / 8);
+    const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+    const divisor = reedSolomonDivisor(blockEccLength);
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+      const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+      k += blockData.length;
+      const ecc = reedSolomonRemainder(blockData, divisor);
+      if (i < numShortBlocks) {
+        // Placeholder so all blocks have the same length while interleaving
+        blockData.push(0);
+      }
+      blocks.push([...blockData, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+        if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+          result.push(block[i]);
+        }
+      });
+    }
+    return result;
+  }
+
+  private drawCodewords(data: number[]): void {
+    let i = 0;
+    // Zigzag through pairs of columns from the bottom right, skipping the
+    // vertical timing pattern
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (!this.isFunction[y][x] && invert) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  private getPenaltyScore(): number {
+    let result = 0;
+    const size = this.size;
+
+    // Runs of the same color in rows and columns, and finder-like patterns
+    for (const isRow of [true, false]) {
+      for (let a = 0; a < size; a++) {
+        let runColor = false;
+        let runLength = 0;
+        const runHistory = [0, 0, 0, 0, 0, 0, 0];
+        for (let b = 0; b < size; b++) {
+          const color = isRow ? this.modules[a][b] : this.modules[b][a];
+          if (color === runColor) {
+            runLength++;
+            if (runLength === 5) {
+              result += PENALTY_N1;
+            } else if (runLength > 5) {
+              result++;
+            }
+          } else {
+            this.addRunHistory(runLength, runHistory);
+            if (!runColor) {
+              result += this.countFinderPatterns(runHistory) * PENALTY_N3;
+            }
+            runColor = color;
+            runLength = 1;
+          }
+        }
+        if (runColor) {
+          this.addRunHistory(runLength, runHistory);
+          runLength = 0;
+        }
+        this.addRunHistory(runLength + size, runHistory);
+        result += this.countFinderPatterns(runHistory) * PENALTY_N3;
+      }
+    }
+
+    // 2x2 blocks of the same color
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += k * PENALTY_N4;
+
+    return result;
+  }
+
+  private addRunHistory(runLength: number, runHistory: number[]): void {
+    // Treat the light border before the first run as part of it
+    if (runHistory[0] === 0) {
+      runLength += this.size;
+    }
+    runHistory.pop();
+    runHistory.unshift(runLength);
+  }
+
+  private countFinderPatterns(runHistory: number[]): number {
+    const n = runHistory[1];
+    const core =
+      n > 0 && runHistory[2] === n && runHistory[3] === n * 3 && runHistory[4] === n && runHistory[5] === n;
+    return (
+      (core && runHistory[0] >= n * 4 && runHistory[6] >= n ? 1 : 0) +
+      (core && runHistory[6] >= n * 4 && runHistory[0] >= n ? 1 : 0)
+    );
+  }
+}
+
+// ANSI escape codes for black and bright white text and background
+const ANSI_FOREGROUND = { dark: "\x1b[30m", light: "\x1b[97m" };
+const ANSI_BACKGROUND = { dark: "\x1b[40m", light: "\x1b[107m" };
+const ANSI_RESET = "\x1b[0m";
+
+/**
+ * Render a QR code for a terminal, using upper half blocks so each line
+ * holds two rows of modules: the top one in the text color and the bottom
+ * one in the background color. Both are set explicitly, so the code comes
+ * out dark on light whatever the terminal's theme.
+ */
+export function renderQrForTerminal(qr: QrCode, quietZone = 2): string {
+  const lines: string[] = [];
+  const start = -quietZone;
+  const end = qr.size + quietZone;
+
+  for (let y = start; y < end; y += 2) {
+    let line = "";
+    let previous = "";
+    for (let x = start; x < end; x++) {
+      const top = qr.isDark(x, y) ? "dark" : "light";
+      // Past the bottom edge is part of the quiet zone
+      const bottom = y + 1 < end && qr.isDark(x, y + 1) ? "dark" : "light";
+      const colors = ANSI_FOREGROUND[top] + ANSI_BACKGROUND[bottom];
+      line += (colors === previous ? "" : colors) + "▀";
+      previous = colors;
+    }
+    lines.push(line + ANSI_RESET);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a QR code as an SVG image, drawing all dark modules as a single
+ * path. The quiet zone is part of the image, so it needs no extra padding.
+ */
+export function renderQrAsSvg(qr: QrCode, quietZone = 4): string {
+  const size = qr.size + quietZone * 2;
+  let path = "";
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.isDark(x, y)) {
+        path += `M${x + quietZone},${y + quietZone}h1v1h-1z`;
+      }
+    }
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/>` +
+    `<path d="${path}" fill="#000"/>` +
+    `</svg>`
+  );
+}
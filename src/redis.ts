@@ -0,0 +1,40 @@
+/**
+ * Redis Client
+ *
+ * The hosted server shares state between function instances through the
+ * Redis REST API offered by Upstash and Vercel KV.
+ */
+
+export class RedisRestClient {
+  constructor(
+    private readonly url: string,
+    private readonly token: string
+  ) {}
+
+  async command(command: string[]): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(command),
+    });
+
+    const body = (await response.json().catch(() => null)) as { result?: unknown; error?: string } | null;
+    if (!response.ok || !body || body.error) {
+      throw new Error(`Redis ${command[0]} failed: ${body?.error ?? response.status}`);
+    }
+    return body.result;
+  }
+}
+
+/**
+ * A client for Redis if the Vercel KV or Upstash environment variables are
+ * set, otherwise null.
+ */
+export function getRedisClient(env: NodeJS.ProcessEnv = process.env): RedisRestClient | null {
+  const url = env.KV_REST_API_URL || env.UPSTASH_REDIS_REST_URL;
+  const token = env.KV_REST_API_TOKEN || env.UPSTASH_REDIS_REST_TOKEN;
+  return url && token ? new RedisRestClient(url, token) : null;
+}
@@ -0,0 +1,254 @@
+/**
+ * Matter MCP Server - Resources
+ *
+ * Exposes articles, their highlights and the reading queue as MCP resources,
+ * so clients can attach them as context without a tool call. Where the
+ * server stays connected, subscribed resources are watched by polling the
+ * updates feed.
+ */
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MatterAuthError } from "./errors.js";
+import { LibraryState, type FeedEntry, type MatterClient } from "./matter-api.js";
+import { decodeCursor, encodeCursor, sortArticles } from "./filters.js";
+import { formatArticle, formatArticleList, formatHighlights } from "./format.js";
+
+const MARKDOWN_MIME_TYPE = "text/markdown";
+const QUEUE_URI = "matter://queue";
+const RESOURCES_PAGE_SIZE = 100;
+
+// How often subscribed resources are checked for changes
+const SUBSCRIPTION_POLL_INTERVAL_MS = 60 * 1000;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "matter://article/{id}",
+    name: "Matter article",
+    description: "An article from your Matter library, with its metadata, notes, highlights and full text",
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: "matter://article/{id}/highlights",
+    name: "Matter article highlights",
+    description: "The highlights and notes on an article from your Matter library",
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+];
+
+const QUEUE_RESOURCE = {
+  uri: QUEUE_URI,
+  name: "Matter queue",
+  description: "The articles in your Matter reading queue, in queue order",
+  mimeType: MARKDOWN_MIME_TYPE,
+};
+
+export type MatterResource =
+  | { type: "article"; id: string }
+  | { type: "highlights"; id: string }
+  | { type: "queue" };
+
+export function parseResourceUri(uri: string): MatterResource | null {
+  if (uri === QUEUE_URI) {
+    return { type: "queue" };
+  }
+
+  const match = /^matter:\/\/article\/(\d+)(\/highlights)?$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+  return match[2] ? { type: "highlights", id: match[1] } : { type: "article", id: match[1] };
+}
+
+export function articleResourceUri(contentId: number): string {
+  return `matter://article/${contentId}`;
+}
+
+function getQueue(entries: FeedEntry[]): FeedEntry[] {
+  const queued = entries.filter((entry) => entry.content.library?.library_state === LibraryState.QUEUE);
+  return sortArticles(queued, "queue_order");
+}
+
+/**
+ * Whether a change to the given entries should be reported for a resource
+ */
+function isAffectedBy(resource: MatterResource, changed: FeedEntry[]): boolean {
+  if (resource.type === "queue") {
+    // Items leaving the queue also change it, so any change may be relevant
+    return changed.length > 0;
+  }
+  return changed.some((entry) => String(entry.content.id) === resource.id);
+}
+
+export interface ResourceOptions {
+  // Handle resources/subscribe. The server must then advertise the
+  // `resources` capability with `subscribe` enabled, and `logging` for
+  // reporting failed polls.
+  subscriptions?: boolean;
+}
+
+/**
+ * Register resource handlers on the server
+ */
+export function registerResources(server: Server, client: MatterClient, options: ResourceOptions = {}): void {
+  const subscriptions = new Set<string>();
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  // Only the first of several failed polls in a row is reported
+  let pollFailing = false;
+
+  const stopPolling = () => {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+
+  const log = (level: "info" | "warning" | "error", data: string) => {
+    server.sendLoggingMessage({ level, logger: "resources", data }).catch(() => {
+      // Not connected anymore
+    });
+  };
+
+  const poll = async () => {
+    try {
+      // Changes are reported through the library change listener below
+      await client.getLibrary();
+      if (pollFailing) {
+        pollFailing = false;
+        log("info", "Checking subscribed resources for updates works again");
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof MatterAuthError) {
+        // Polling again won't help until the user logs in again
+        stopPolling();
+        log("error", `Stopped checking subscribed resources for updates: ${message}`);
+      } else if (!pollFailing) {
+        pollFailing = true;
+        log("warning", `Failed to check subscribed resources for updates: ${message}`);
+      }
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer) {
+      return;
+    }
+    pollFailing = false;
+    pollTimer = setInterval(poll, SUBSCRIPTION_POLL_INTERVAL_MS);
+    // Don't keep the process alive just for polling
+    pollTimer.unref?.();
+  };
+
+  const removeListener = client.onLibraryChange((changed) => {
+    for (const uri of subscriptions) {
+      const resource = parseResourceUri(uri);
+      if (resource && isAffectedBy(resource, changed)) {
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Failed to notify about update to ${uri}:`, error);
+        });
+      }
+    }
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    stopPolling();
+    removeListener();
+    previousOnClose?.();
+  };
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    let offset = 0;
+    if (request.params?.cursor) {
+      try {
+        offset = decodeCursor(request.params.cursor).offset;
+      } catch {
+        throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+      }
+    }
+
+    const entries = await client.withSignal(extra.signal, () => client.getLibrary());
+    const page = entries.slice(offset, offset + RESOURCES_PAGE_SIZE);
+    const nextOffset = offset + page.length;
+
+    const resources = page.map((entry) => ({
+      uri: articleResourceUri(entry.content.id),
+      name: entry.content.title,
+      description: entry.content.excerpt ?? undefined,
+      mimeType: MARKDOWN_MIME_TYPE,
+    }));
+
+    return {
+      resources: offset === 0 ? [QUEUE_RESOURCE, ...resources] : resources,
+      nextCursor: nextOffset < entries.length ? encodeCursor({ offset: nextOffset }) : undefined,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    return client.withSignal(extra.signal, () => readResource(request.params.uri));
+  });
+
+  async function readResource(uri: string): Promise<ReadResourceResult> {
+    const resource = parseResourceUri(uri);
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    let text: string;
+    if (resource.type === "queue") {
+      text = formatArticleList(getQueue(await client.getLibrary()));
+    } else {
+      const entry = await client.getArticle(resource.id);
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Article with ID "${resource.id}" not found`);
+      }
+      text = resource.type === "article" ? formatArticle(entry) : formatHighlights(entry);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MARKDOWN_MIME_TYPE,
+          text,
+        },
+      ],
+    };
+  }
+
+  if (!options.subscriptions) {
+    return;
+  }
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!parseResourceUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    subscriptions.add(uri);
+    startPolling();
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0) {
+      stopPolling();
+    }
+    return {};
+  });
+}
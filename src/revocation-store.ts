@@ -0,0 +1,78 @@
+/**
+ * Revocation Storage
+ *
+ * OAuth tokens are stateless, so revoking one means remembering its grant ID
+ * until every token issued for the grant has expired. The hosted server
+ * needs a store shared between function instances for this; without one it
+ * falls back to memory, which only covers the current instance.
+ */
+
+import { getRedisClient, type RedisRestClient } from "./redis.js";
+
+export interface RevocationStore {
+  // expiresAt is a Unix timestamp in seconds, or null to remember forever
+  revoke(id: string, expiresAt: number | null): Promise<void>;
+  isRevoked(id: string): Promise<boolean>;
+}
+
+/**
+ * Keeps revocations in memory only
+ */
+export class MemoryRevocationStore implements RevocationStore {
+  private readonly revoked = new Map<string, number | null>();
+
+  async revoke(id: string, expiresAt: number | null): Promise<void> {
+    this.prune();
+    this.revoked.set(id, expiresAt);
+  }
+
+  async isRevoked(id: string): Promise<boolean> {
+    this.prune();
+    return this.revoked.has(id);
+  }
+
+  private prune() {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [id, expiresAt] of this.revoked) {
+      if (expiresAt !== null && expiresAt <= now) {
+        this.revoked.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps revocations in Redis
+ */
+export class RedisRevocationStore implements RevocationStore {
+  constructor(
+    private readonly redis: RedisRestClient,
+    private readonly prefix = "getmatter-mcp:revoked:"
+  ) {}
+
+  async revoke(id: string, expiresAt: number | null): Promise<void> {
+    const command = ["SET", this.prefix + id, "1"];
+    if (expiresAt !== null) {
+      command.push("EXAT", String(expiresAt));
+    }
+    await this.redis.command(command);
+  }
+
+  async isRevoked(id: string): Promise<boolean> {
+    return (await this.redis.command(["EXISTS", this.prefix + id])) === 1;
+  }
+}
+
+let defaultStore: RevocationStore | null = null;
+
+/**
+ * The revocation store for the hosted server: Redis if the Vercel KV or
+ * Upstash environment variables are set, otherwise memory.
+ */
+export function getRevocationStore(env: NodeJS.ProcessEnv = process.env): RevocationStore {
+  if (!defaultStore) {
+    const redis = getRedisClient(env);
+    defaultStore = redis ? new RedisRevocationStore(redis) : new MemoryRevocationStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,362 @@
+/**
+ * Matter API Response Schemas
+ *
+ * The Matter API is undocumented, so its responses are checked against what
+ * the server expects before they are used. Unknown extra fields are always
+ * accepted. When an expected field is missing or has the wrong type, the
+ * difference is recorded as schema drift. By default the field then falls
+ * back to an empty value so the rest of the response stays usable; in
+ * strict mode the request fails instead.
+ */
+
+import { z } from "zod";
+import { MatterResponseError, type ValidationIssue } from "./errors.js";
+import type {
+  Annotation,
+  FeedResponse,
+  Library,
+  NoteResponse,
+  SaveArticleResponse,
+  TagsResponse,
+  TokenRefreshResponse,
+} from "./matter-api.js";
+
+// Distinct kinds of drift to remember, so a flood of changes can't use up
+// memory
+const MAX_DRIFT_RECORDS = 100;
+
+export interface ResponseSchema<T> {
+  // Name of the response type, used when reporting drift
+  name: string;
+  // Requires every expected field
+  exact: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // Falls back to empty values for fields that don't match
+  tolerant: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+function createSchemas(tolerant: boolean) {
+  // Identifiers that the server uses to address items have no sensible
+  // fallback, so an item without a valid one is dropped as a whole instead
+  function fallback<T extends z.ZodTypeAny>(schema: T, value: z.output<T>) {
+    return tolerant ? schema.catch(value) : schema;
+  }
+
+  // Lists skip invalid items rather than discarding every item
+  function list<T extends z.ZodTypeAny>(item: T) {
+    if (!tolerant) {
+      return z.array(item);
+    }
+    return z
+      .array(z.unknown())
+      .catch([])
+      .transform((items) =>
+        items.flatMap((value): z.output<T>[] => {
+          const result = item.safeParse(value);
+          return result.success ? [result.data] : [];
+        })
+      );
+  }
+
+  const text = () => fallback(z.string(), "");
+  const nullableText = () => fallback(z.string().nullable(), null);
+  const number = () => fallback(z.number(), 0);
+  const nullableNumber = () => fallback(z.number().nullable(), null);
+  const boolean = () => fallback(z.boolean(), false);
+
+  const profile = z
+    .object({
+      id: number(),
+      profile_type: number(),
+      first_name: nullableText(),
+      last_name: nullableText(),
+      name: nullableText(),
+      is_managed: boolean(),
+      avatar_photo: nullableText(),
+      display_name: nullableText(),
+      any_name: text(),
+      domain: nullableText(),
+      domain_photo: nullableText(),
+      url: nullableText(),
+      photo_url: nullableText(),
+    })
+    .passthrough();
+  const nullableProfile = () => fallback(profile.nullable(), null);
+
+  const tag = z.object({ name: z.string() }).passthrough();
+
+  const annotation = z
+    .object({
+      id: z.string(),
+      text: text(),
+      note: nullableText(),
+      created_date: text(),
+      word_start: number(),
+      word_end: number(),
+    })
+    .passthrough();
+
+  const library = z
+    .object({
+      id: number(),
+      content_id: number(),
+      library_state: number(),
+      library_state_date: text(),
+      modified_date: text(),
+      is_favorited: boolean(),
+      last_favorited_date: nullableText(),
+      rating: nullableNumber(),
+      queue_order: number(),
+    })
+    .passthrough();
+
+  const rssFeed = z
+    .object({
+      id: number(),
+      name: text(),
+      photo_url: nullableText(),
+      url: text(),
+    })
+    .passthrough();
+
+  const article = z
+    .object({
+      id: number(),
+      url: text(),
+      title: text(),
+      authors: list(z.string()),
+      publisher: nullableProfile(),
+      publication_date: nullableText(),
+      word_count: nullableNumber(),
+      reading_time_minutes: nullableNumber(),
+      markdown: nullableText(),
+      language: nullableText(),
+    })
+    .passthrough();
+
+  const history = z
+    .object({
+      id: number(),
+      content_id: number(),
+      last_viewed_date: nullableText(),
+      last_interaction_date: nullableText(),
+      last_annotated_date: nullableText(),
+      last_read_percentage: nullableNumber(),
+      max_read_percentage: nullableNumber(),
+    })
+    .passthrough();
+
+  const content = z
+    .object({
+      id: z.number(),
+      url: z.string(),
+      title: text(),
+      author: nullableProfile(),
+      publisher: nullableProfile(),
+      newsletter_profile: nullableProfile(),
+      rss_feed_profile: nullableProfile(),
+      publication_date: nullableText(),
+      feed_date: nullableText(),
+      sub_title: nullableText(),
+      excerpt: nullableText(),
+      blurb: nullableText(),
+      photo_thumbnail_url: nullableText(),
+      source_type: number(),
+      history: fallback(history.nullable(), null),
+      library: fallback(library.nullable(), null),
+      my_annotations: list(annotation),
+      my_note: nullableText(),
+      tags: list(tag),
+      rss_feed: fallback(rssFeed.nullable(), null),
+      share_url: nullableText(),
+      article: fallback(article.nullable(), null),
+      content_type: number(),
+    })
+    .passthrough();
+
+  const feedEntry = z
+    .object({
+      id: z.string(),
+      content,
+      recommendations: list(z.unknown()),
+      annotations: list(annotation),
+    })
+    .passthrough();
+
+  return {
+    feedResponse: z
+      .object({
+        id: text(),
+        feed: list(feedEntry),
+        next: nullableText(),
+        previous: nullableText(),
+        queue_count: fallback(z.number().optional(), undefined),
+        archive_count: fallback(z.number().optional(), undefined),
+      })
+      .passthrough(),
+    library,
+    annotation,
+    saveArticleResponse: z.object({ id: z.number(), content_id: z.number() }).passthrough(),
+    noteResponse: z.object({ content_id: z.number(), my_note: nullableText() }).passthrough(),
+    tagsResponse: z.object({ content_id: z.number(), tags: list(tag) }).passthrough(),
+    tokenRefreshResponse: z.object({ access_token: z.string(), refresh_token: z.string() }).passthrough(),
+  };
+}
+
+const EXACT = createSchemas(false);
+const TOLERANT = createSchemas(true);
+
+export const FEED_RESPONSE_SCHEMA: ResponseSchema<FeedResponse> = {
+  name: "FeedResponse",
+  exact: EXACT.feedResponse,
+  tolerant: TOLERANT.feedResponse,
+};
+
+export const LIBRARY_SCHEMA: ResponseSchema<Library> = {
+  name: "Library",
+  exact: EXACT.library,
+  tolerant: TOLERANT.library,
+};
+
+export const ANNOTATION_SCHEMA: ResponseSchema<Annotation> = {
+  name: "Annotation",
+  exact: EXACT.annotation,
+  tolerant: TOLERANT.annotation,
+};
+
+export const SAVE_ARTICLE_RESPONSE_SCHEMA: ResponseSchema<SaveArticleResponse> = {
+  name: "SaveArticleResponse",
+  exact: EXACT.saveArticleResponse,
+  tolerant: TOLERANT.saveArticleResponse,
+};
+
+export const NOTE_RESPONSE_SCHEMA: ResponseSchema<NoteResponse> = {
+  name: "NoteResponse",
+  exact: EXACT.noteResponse,
+  tolerant: TOLERANT.noteResponse,
+};
+
+export const TAGS_RESPONSE_SCHEMA: ResponseSchema<TagsResponse> = {
+  name: "TagsResponse",
+  exact: EXACT.tagsResponse,
+  tolerant: TOLERANT.tagsResponse,
+};
+
+export const TOKEN_REFRESH_RESPONSE_SCHEMA: ResponseSchema<TokenRefreshResponse> = {
+  name: "TokenRefreshResponse",
+  exact: EXACT.tokenRefreshResponse,
+  tolerant: TOLERANT.tokenRefreshResponse,
+};
+
+// One kind of mismatch between a response and its schema
+export interface SchemaDrift {
+  response: string;
+  // Path to the field, with [] standing for any item of a list
+  field: string;
+  problem: string;
+  // Number of responses it was seen in
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+/**
+ * Remembers the schema drift seen by this process, logging each kind the
+ * first time it appears
+ */
+export class SchemaDriftLog {
+  private readonly drift = new Map<string, SchemaDrift>();
+
+  record(response: string, issues: ValidationIssue[], now: Date = new Date()): void {
+    for (const issue of issues) {
+      const field = issue.field ?? "(response)";
+      const key = `${response} ${field} ${issue.message}`;
+      const existing = this.drift.get(key);
+      if (existing) {
+        existing.count++;
+        existing.lastSeen = now.toISOString();
+        // Keep the map ordered by when drift was last seen
+        this.drift.delete(key);
+        this.drift.set(key, existing);
+        continue;
+      }
+
+      console.error(`Matter API schema drift in ${response}: ${field}: ${issue.message}`);
+      this.drift.set(key, {
+        response,
+        field,
+        problem: issue.message,
+        count: 1,
+        firstSeen: now.toISOString(),
+        lastSeen: now.toISOString(),
+      });
+      if (this.drift.size > MAX_DRIFT_RECORDS) {
+        this.drift.delete(this.drift.keys().next().value!);
+      }
+    }
+  }
+
+  /**
+   * The drift seen so far, most recently seen first
+   */
+  list(): SchemaDrift[] {
+    return [...this.drift.values()].reverse();
+  }
+}
+
+let defaultDriftLog: SchemaDriftLog | null = null;
+
+/**
+ * The drift log shared by every client in this process
+ */
+export function getSchemaDriftLog(): SchemaDriftLog {
+  if (!defaultDriftLog) {
+    defaultDriftLog = new SchemaDriftLog();
+  }
+  return defaultDriftLog;
+}
+
+function toIssue(issue: z.ZodIssue): ValidationIssue {
+  const field = issue.path.map((part) => (typeof part === "number" ? "[]" : `.${part}`)).join("");
+  return {
+    field: field ? field.replace(/^\./, "") : undefined,
+    message: issue.message,
+  };
+}
+
+/**
+ * Check a response body against its schema, recording any drift. In strict
+ * mode drift fails the request; otherwise the tolerant schema fills in what
+ * it can, and only a response without usable identifiers fails.
+ */
+export function parseResponse<T>(
+  schema: ResponseSchema<T>,
+  body: unknown,
+  options: { status: number; strict: boolean; driftLog: SchemaDriftLog }
+): T {
+  const exact = schema.exact.safeParse(body);
+  if (exact.success) {
+    return exact.data;
+  }
+
+  // A page of the feed often has the same drift in every entry
+  const issues = [
+    ...new Map(
+      exact.error.issues.map(toIssue).map((issue) => [`${issue.field} ${issue.message}`, issue])
+    ).values(),
+  ];
+  options.driftLog.record(schema.name, issues);
+
+  if (!options.strict) {
+    const tolerant = schema.tolerant.safeParse(body);
+    if (tolerant.success) {
+      return tolerant.data;
+    }
+  }
+
+  const fields = issues.map((issue) => (issue.field ? `${issue.field}: ${issue.message}` : issue.message));
+  throw new MatterResponseError(
+    `Unexpected ${schema.name} from the Matter API (${fields.join("; ")})`,
+    options.status,
+    issues
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * Full-text search over the library
+ *
+ * Builds an inverted index over titles, excerpts, article bodies, notes,
+ * highlights, tags and authors, and ranks matches with a TF-IDF style score
+ * weighted by the field each match was found in.
+ */
+
+import type { FeedEntry } from "./matter-api.js";
+import { getAuthorName } from "./filters.js";
+import { getHighlights } from "./highlights.js";
+
+export type SearchField = "title" | "excerpt" | "body" | "note" | "highlight" | "tag" | "author";
+
+// Matches in short, curated fields say more about an article than body matches
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  tag: 4,
+  highlight: 3,
+  note: 3,
+  author: 2,
+  excerpt: 2,
+  body: 1,
+};
+
+// Field qualifiers accepted in queries, e.g. `author:"paul graham"`
+const QUALIFIER_FIELDS: Record<string, SearchField> = {
+  title: "title",
+  author: "author",
+  tag: "tag",
+  note: "note",
+  highlight: "highlight",
+  body: "body",
+};
+
+const MAX_MATCHES_PER_RESULT = 3;
+const SNIPPET_CONTEXT_BEFORE = 60;
+const SNIPPET_CONTEXT_AFTER = 120;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    tokens.push({
+      term: match[0].toLowerCase(),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+export interface QueryClause {
+  // Consecutive terms that must appear in order (a single term for plain words)
+  terms: string[];
+  // Restrict matches to this field
+  field?: SearchField;
+}
+
+/**
+ * Parse a query into clauses. Supports plain words, "quoted phrases" and
+ * field qualifiers such as `tag:ai`, `author:"paul graham"` or
+ * `title:"attention is all you need"`.
+ */
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const pattern = /(?:(\w+):)?(?:"([^"]*)"|(\S+))/g;
+
+  for (const match of query.matchAll(pattern)) {
+    const [, qualifier, quoted, bare] = match;
+    const qualifierField = qualifier ? QUALIFIER_FIELDS[qualifier.toLowerCase()] : undefined;
+
+    // An unknown qualifier is treated as part of the search text
+    const text = qualifier && !qualifierField ? `${qualifier} ${quoted ?? bare}` : quoted ?? bare;
+    const terms = tokenize(text).map((t) => t.term);
+    if (terms.length === 0) {
+      continue;
+    }
+
+    if (quoted !== undefined || qualifierField) {
+      clauses.push({ terms, field: qualifierField });
+    } else {
+      // Bare words like "state-of-the-art" are tokenized into a phrase
+      clauses.push({ terms });
+    }
+  }
+
+  return clauses;
+}
+
+interface Segment {
+  field: SearchField;
+  text: string;
+  tokenCount?: number;
+}
+
+interface Document {
+  entry: FeedEntry;
+  segments: Segment[];
+}
+
+// Positions of a term within one segment of one document
+interface Posting {
+  doc: number;
+  segment: number;
+  positions: number[];
+}
+
+export interface SearchMatch {
+  field: SearchField;
+  snippet: string;
+}
+
+export interface SearchResult {
+  entry: FeedEntry;
+  score: number;
+  matches: SearchMatch[];
+}
+
+function getSegments(entry: FeedEntry): Segment[] {
+  const { content } = entry;
+  const segments: Segment[] = [];
+
+  segments.push({ field: "title", text: content.title || "" });
+
+  const authorName = getAuthorName(content);
+  if (authorName) {
+    segments.push({ field: "author", text: authorName });
+  }
+  for (const tag of content.tags || []) {
+    segments.push({ field: "tag", text: tag.name });
+  }
+  if (content.excerpt) {
+    segments.push({ field: "excerpt", text: content.excerpt });
+  }
+  if (content.my_note) {
+    segments.push({ field: "note", text: content.my_note });
+  }
+
+  // Each highlight and its note is its own segment so phrases don't span them
+  for (const annotation of getHighlights(entry)) {
+    segments.push({ field: "highlight", text: annotation.text });
+    if (annotation.note) {
+      segments.push({ field: "note", text: annotation.note });
+    }
+  }
+
+  if (content.article?.markdown) {
+    segments.push({ field: "body", text: content.article.markdown });
+  }
+
+  return segments;
+}
+
+function buildSnippet(text: string, start: number, end: number): string {
+  let snippetStart = Math.max(0, start - SNIPPET_CONTEXT_BEFORE);
+  let snippetEnd = Math.min(text.length, end + SNIPPET_CONTEXT_AFTER);
+
+  // Avoid cutting words in half at the edges
+  if (snippetStart > 0) {
+    const space = text.indexOf(" ", snippetStart);
+    if (space !== -1 && space < start) {
+      snippetStart = space + 1;
+    }
+  }
+  if (snippetEnd < text.length) {
+    const space = text.lastIndexOf(" ", snippetEnd);
+    if (space > end) {
+      snippetEnd = space;
+    }
+  }
+
+  const before = text.slice(snippetStart, start);
+  const matched = text.slice(start, end);
+  const after = text.slice(end, snippetEnd);
+  const snippet = `${before}**${matched}**${after}`.replace(/\s+/g, " ").trim();
+
+  return `${snippetStart > 0 ? "…" : ""}${snippet}${snippetEnd < text.length ? "…" : ""}`;
+}
+
+export class SearchIndex {
+  private documents: Document[] = [];
+  private postings = new Map<string, Posting[]>();
+
+  constructor(entries: FeedEntry[]) {
+    for (const entry of entries) {
+      this.add(entry);
+    }
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  private add(entry: FeedEntry): void {
+    const doc = this.documents.length;
+    const segments = getSegments(entry);
+    this.documents.push({ entry, segments });
+
+    segments.forEach((segment, segmentIndex) => {
+      const positionsByTerm = new Map<string, number[]>();
+      const tokens = tokenize(segment.text);
+      segment.tokenCount = tokens.length;
+      tokens.forEach((token, position) => {
+        const positions = positionsByTerm.get(token.term);
+        if (positions) {
+          positions.push(position);
+        } else {
+          positionsByTerm.set(token.term, [position]);
+        }
+      });
+
+      for (const [term, positions] of positionsByTerm) {
+        const termPostings = this.postings.get(term);
+        const posting = { doc, segment: segmentIndex, positions };
+        if (termPostings) {
+          termPostings.push(posting);
+        } else {
+          this.postings.set(term, [posting]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the start positions of a clause within each matching segment,
+   * keyed by document and then segment index
+   */
+  private findClause(clause: QueryClause): Map<number, Map<number, number[]>> {
+    const [first, ...rest] = clause.terms;
+    const matches = new Map<number, Map<number, number[]>>();
+
+    // Index the following terms' positions by segment for phrase checks
+    const followingPositions = rest.map((term) => {
+      const bySegment = new Map<string, Set<number>>();
+      for (const posting of this.postings.get(term) ?? []) {
+        bySegment.set(`${posting.doc}:${posting.segment}`, new Set(posting.positions));
+      }
+      return bySegment;
+    });
+
+    for (const posting of this.postings.get(first) ?? []) {
+      const segment = this.documents[posting.doc].segments[posting.segment];
+      if (clause.field && segment.field !== clause.field) {
+        continue;
+      }
+
+      // Tag qualifiers have to match the whole tag, not just part of it
+      if (clause.field === "tag" && segment.tokenCount !== clause.terms.length) {
+        continue;
+      }
+
+      const key = `${posting.doc}:${posting.segment}`;
+      const starts = posting.positions.filter((position) =>
+        followingPositions.every((bySegment, i) => bySegment.get(key)?.has(position + i + 1))
+      );
+      if (starts.length === 0) {
+        continue;
+      }
+
+      let docMatches = matches.get(posting.doc);
+      if (!docMatches) {
+        docMatches = new Map();
+        matches.set(posting.doc, docMatches);
+      }
+      docMatches.set(posting.segment, starts);
+    }
+
+    return matches;
+  }
+
+  search(query: string, limit = 10): SearchResult[] {
+    const clauses = parseQuery(query);
+    if (clauses.length === 0) {
+      return [];
+    }
+
+    const clauseMatches = clauses.map((clause) => this.findClause(clause));
+
+    // Every clause has to match somewhere in the document
+    const [firstMatches, ...otherMatches] = clauseMatches;
+    const candidates = [...firstMatches.keys()].filter((doc) =>
+      otherMatches.every((matches) => matches.has(doc))
+    );
+
+    const results: SearchResult[] = candidates.map((doc) => {
+      const document = this.documents[doc];
+      let score = 0;
+      const hits: { segment: number; position: number; length: number; weight: number }[] = [];
+
+      clauses.forEach((clause, i) => {
+        const matches = clauseMatches[i];
+        const idf = Math.log(1 + this.documents.length / matches.size);
+        for (const [segmentIndex, starts] of matches.get(doc) ?? []) {
+          const weight = FIELD_WEIGHTS[document.segments[segmentIndex].field];
+          score += weight * (1 + Math.log(starts.length)) * idf;
+          hits.push({ segment: segmentIndex, position: starts[0], length: clause.terms.length, weight });
+        }
+      });
+
+      // Show the best match from each distinct field
+      hits.sort((a, b) => b.weight - a.weight);
+      const matches: SearchMatch[] = [];
+      const seenFields = new Set<SearchField>();
+      for (const hit of hits) {
+        const segment = document.segments[hit.segment];
+        if (seenFields.has(segment.field)) {
+          continue;
+        }
+        seenFields.add(segment.field);
+
+        const tokens = tokenize(segment.text);
+        const start = tokens[hit.position].start;
+        const end = tokens[hit.position + hit.length - 1].end;
+        matches.push({ field: segment.field, snippet: buildSnippet(segment.text, start, end) });
+
+        if (matches.length >= MAX_MATCHES_PER_RESULT) {
+          break;
+        }
+      }
+
+      return { entry: document.entry, score, matches };
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
+  }
+}
@@ -9,16 +9,113 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type CallToolResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MatterClient, libraryStateToString, type FeedEntry, type MatterTokens } from "./matter-api.js";
+import {
+  MatterClient,
+  LIBRARY_STATE_NAMES,
+  libraryStateFromString,
+  libraryStateToString,
+  type MatterTokens,
+  type NoteResponse,
+} from "./matter-api.js";
+import {
+  ARTICLE_SORT_FIELDS,
+  decodeCursor,
+  encodeCursor,
+  matchesFilter,
+  sortArticles,
+  type ArticleFilter,
+} from "./filters.js";
+import type { LibraryStore } from "./library-store.js";
+import type { MatterConfig } from "./config.js";
+import {
+  MatterAPIError,
+  MatterAuthError,
+  MatterNetworkError,
+  MatterNotFoundError,
+  MatterRateLimitError,
+  MatterResponseError,
+  ReadOnlyError,
+  UnknownToolError,
+  ValidationError,
+} from "./errors.js";
+import { findQuoteSpan, getHighlights, getWordRangeSpan } from "./highlights.js";
+import {
+  DEFAULT_CHUNK_CHARS,
+  MAX_CHUNK_CHARS,
+  MIN_CHUNK_CHARS,
+  decodeArticleCursor,
+  getArticlePart,
+  getHeadings,
+  getTableOfContents,
+  splitIntoChunks,
+} from "./chunks.js";
+import {
+  EXPORT_FORMATS,
+  collectHighlights,
+  toExportData,
+  toJson,
+  toObsidianMarkdown,
+  toReadwiseCsv,
+} from "./export.js";
+import {
+  formatArticleMetadata,
+  formatArticlePart,
+  formatArticleList,
+  formatBatchResults,
+  formatDiagnostics,
+  formatHighlights,
+  formatSearchResults,
+  formatTableOfContents,
+  formatTags,
+} from "./format.js";
+
+import {
+  DELETE_HIGHLIGHT_OUTPUT_SCHEMA,
+  DIAGNOSTICS_OUTPUT_SCHEMA,
+  EXPORT_HIGHLIGHTS_OUTPUT_SCHEMA,
+  GET_ARTICLE_OUTPUT_SCHEMA,
+  HIGHLIGHT_OUTPUT_SCHEMA,
+  LIST_ARTICLES_OUTPUT_SCHEMA,
+  LIST_TAGS_OUTPUT_SCHEMA,
+  SAVE_ARTICLE_OUTPUT_SCHEMA,
+  SEARCH_OUTPUT_SCHEMA,
+  SET_FAVORITE_OUTPUT_SCHEMA,
+  SET_RATING_OUTPUT_SCHEMA,
+  UPDATE_LIBRARY_STATE_OUTPUT_SCHEMA,
+  UPDATE_NOTE_OUTPUT_SCHEMA,
+  UPDATE_TAGS_OUTPUT_SCHEMA,
+  toArticleBodyOutput,
+  toArticleOutput,
+  toArticleSummaryOutput,
+  toBatchOutput,
+  toHighlightOutput,
+} from "./output.js";
+
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+
+export { formatArticle, formatArticleList } from "./format.js";
+
+// Which parts of an article matter_get_article returns
+type ArticleMode = "full" | "metadata" | "highlights" | "body";
+const ARTICLE_MODES: ArticleMode[] = ["full", "metadata", "highlights", "body"];
+
+// Ends the description of tools that write through endpoints no known Matter
+// client uses, so their paths and payloads are unconfirmed
+const EXPERIMENTAL = " Experimental: uses an unconfirmed Matter API endpoint, so it may fail if Matter changes or lacks it.";
 
 // Tool definitions
 export const TOOLS = [
   {
     name: "matter_list_articles",
     description:
-      "List articles from your Matter reading list. Returns a paginated list of saved articles with their titles, URLs, authors, and reading progress.",
+      "List articles from your Matter reading list. Returns a paginated list of saved articles with their titles, URLs, authors, and reading progress. Supports filtering by state, favorites, tags, author, publisher, language, progress and dates, and sorting. Pass the returned cursor to fetch the next page; it remembers the filters and sort order.",
+    annotations: {
+      readOnlyHint: true,
+    },
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -27,13 +124,87 @@ export const TOOLS = [
           description: "Maximum number of articles to return (default: 20, max: 100)",
           default: 20,
         },
+        cursor: {
+          type: "string",
+          description:
+            "Cursor returned by a previous call to continue listing from where it left off, with the same filters and sort order",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-download the whole library instead of only fetching recent updates",
+        },
+        library_state: {
+          type: "array",
+          items: { type: "string", enum: LIBRARY_STATE_NAMES },
+          description: "Only include articles in these library states",
+        },
+        is_favorited: {
+          type: "boolean",
+          description: "Only include favorited (true) or non-favorited (false) articles",
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only include articles that have all of these tags (case-insensitive)",
+        },
+        author: {
+          type: "string",
+          description: "Only include articles whose author name contains this text (case-insensitive)",
+        },
+        publisher: {
+          type: "string",
+          description: "Only include articles whose publisher name contains this text (case-insensitive)",
+        },
+        language: {
+          type: "string",
+          description: "Only include articles in this language, e.g. \"en\"",
+        },
+        min_progress: {
+          type: "number",
+          description: "Minimum reading progress in percent (0-100)",
+        },
+        max_progress: {
+          type: "number",
+          description: "Maximum reading progress in percent (0-100)",
+        },
+        saved_after: {
+          type: "string",
+          description: "Only include articles saved on or after this ISO 8601 date",
+        },
+        saved_before: {
+          type: "string",
+          description: "Only include articles saved on or before this ISO 8601 date",
+        },
+        published_after: {
+          type: "string",
+          description: "Only include articles published on or after this ISO 8601 date",
+        },
+        published_before: {
+          type: "string",
+          description: "Only include articles published on or before this ISO 8601 date",
+        },
+        sort_by: {
+          type: "string",
+          enum: ARTICLE_SORT_FIELDS,
+          description: "Sort articles by this field (default: feed order)",
+        },
+        sort_order: {
+          type: "string",
+          enum: ["asc", "desc"],
+          description: "Sort direction (default: asc)",
+          default: "asc",
+        },
       },
     },
+    outputSchema: LIST_ARTICLES_OUTPUT_SCHEMA,
   },
   {
     name: "matter_get_article",
     description:
-      "Get detailed information about a specific article including its full content, highlights, annotations, and notes.",
+      "Get detailed information about a specific article including its full content, highlights, annotations, and notes. Look the article up either by its ID or by its URL. Long articles are returned in parts, with a table of contents of their headings: pass part to jump to one, or the returned cursor to continue reading. Use mode to get only the metadata, only the highlights, or only the text.",
+    annotations: {
+      readOnlyHint: true,
+    },
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -41,14 +212,366 @@ export const TOOLS = [
           type: "string",
           description: "The ID of the article to retrieve",
         },
+        url: {
+          type: "string",
+          description: "The URL of the article to retrieve, as an alternative to article_id. Tracking parameters, \"www.\" and trailing slashes are ignored.",
+        },
+        mode: {
+          type: "string",
+          enum: ARTICLE_MODES,
+          description:
+            "What to return: everything (full), only the metadata and table of contents (metadata), only the highlights (highlights), or only the text (body). Default: full",
+          default: "full",
+        },
+        part: {
+          type: "number",
+          description: "Which part of the text to return, starting at 1 (default: 1)",
+        },
+        max_chars: {
+          type: "number",
+          description: `Maximum number of characters in each part of the text (${MIN_CHUNK_CHARS}-${MAX_CHUNK_CHARS}, default: ${DEFAULT_CHUNK_CHARS})`,
+        },
+        cursor: {
+          type: "string",
+          description: "Cursor returned with the previous part, to continue reading. Replaces article_id, part and max_chars.",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-download the whole library before looking up the article",
+        },
+      },
+    },
+    outputSchema: GET_ARTICLE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_search",
+    description:
+      "Search your Matter library by full text across titles, excerpts, article bodies, highlights, notes and tags. Results are ranked by relevance and include snippets showing where each match was found. Supports \"quoted phrases\" and field qualifiers such as tag:ai, author:\"paul graham\", title:, note:, highlight: and body:.",
+    annotations: {
+      readOnlyHint: true,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        query: {
+          type: "string",
+          description: "The search query, e.g. 'tag:ai \"scaling laws\"'",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of results to return (default: 10, max: 50)",
+          default: 10,
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-download the whole library before searching",
+        },
+      },
+      required: ["query"],
+    },
+    outputSchema: SEARCH_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_update_library_state",
+    description:
+      "Move one or more articles between your Matter queue, later and archive. Reports success or failure for each article." +
+      EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        article_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "The IDs of the articles to move (max: 100)",
+        },
+        library_state: {
+          type: "string",
+          enum: ["QUEUE", "LATER", "ARCHIVE"],
+          description: "The state to move the articles to",
+        },
+      },
+      required: ["article_ids", "library_state"],
+    },
+    outputSchema: UPDATE_LIBRARY_STATE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_set_favorite",
+    description: "Favorite or unfavorite an article in your Matter library." + EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        article_id: {
+          type: "string",
+          description: "The ID of the article",
+        },
+        favorited: {
+          type: "boolean",
+          description: "true to favorite the article, false to unfavorite it",
+        },
+      },
+      required: ["article_id", "favorited"],
+    },
+    outputSchema: SET_FAVORITE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_set_rating",
+    description: "Rate an article in your Matter library, or clear its rating." + EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        article_id: {
+          type: "string",
+          description: "The ID of the article",
+        },
+        rating: {
+          type: ["integer", "null"],
+          description: "Rating from 1 to 5, or null to clear the rating",
+        },
+      },
+      required: ["article_id", "rating"],
+    },
+    outputSchema: SET_RATING_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_update_note",
+    description:
+      "Write your note on an article in Matter. Replace the note, append to it (e.g. to record takeaways after discussing an article), or clear it." +
+      EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        article_id: {
+          type: "string",
+          description: "The ID of the article",
+        },
+        note: {
+          type: "string",
+          description: "The note text (not needed when clearing)",
+        },
+        mode: {
+          type: "string",
+          enum: ["replace", "append", "clear"],
+          description: "Replace the existing note, append as a new paragraph, or clear it (default: append)",
+          default: "append",
+        },
+      },
+      required: ["article_id"],
+    },
+    outputSchema: UPDATE_NOTE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_list_tags",
+    description: "List all tags used in your Matter library, with the number of articles carrying each tag.",
+    annotations: {
+      readOnlyHint: true,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        refresh: {
+          type: "boolean",
+          description: "Re-download the whole library before counting tags",
+        },
+      },
+    },
+    outputSchema: LIST_TAGS_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_update_tags",
+    description:
+      "Add and/or remove tags on one or more articles in your Matter library. Reports success or failure for each article." +
+      EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        article_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "The IDs of the articles to update (max: 100)",
+        },
+        add: {
+          type: "array",
+          items: { type: "string" },
+          description: "Tags to add",
+        },
+        remove: {
+          type: "array",
+          items: { type: "string" },
+          description: "Tags to remove",
+        },
+      },
+      required: ["article_ids"],
+    },
+    outputSchema: UPDATE_TAGS_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_rename_tag",
+    description:
+      "Rename a tag on every article that carries it. Renaming to a tag that already exists merges the two tags." +
+      EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        from: {
+          type: "string",
+          description: "The current tag name (case-insensitive)",
+        },
+        to: {
+          type: "string",
+          description: "The new tag name",
+        },
+      },
+      required: ["from", "to"],
+    },
+    outputSchema: UPDATE_TAGS_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_create_highlight",
+    description:
+      "Highlight a passage in an article, optionally with a note. Identify the passage either by quoting it or by its word range. Fails with an explanation if the quote can't be found or appears more than once. Words are counted in the article text without Markdown syntax, which approximates how Matter counts them, so in articles with unusual formatting the highlight may land a few words off." +
+      EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        article_id: {
+          type: "string",
+          description: "The ID of the article",
+        },
+        quote: {
+          type: "string",
+          description: "The exact passage to highlight. Punctuation, case and Markdown formatting are ignored when matching.",
+        },
+        occurrence: {
+          type: "number",
+          description: "Which occurrence of the quote to highlight when it appears more than once (1-based)",
+        },
+        word_start: {
+          type: "number",
+          description: "Index of the first word to highlight, as an alternative to quote. Words are counted in the text without Markdown syntax.",
+        },
+        word_end: {
+          type: "number",
+          description: "Index after the last word to highlight (exclusive)",
+        },
+        note: {
+          type: "string",
+          description: "Optional note to attach to the highlight",
+        },
       },
       required: ["article_id"],
     },
+    outputSchema: HIGHLIGHT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_update_highlight",
+    description: "Set or clear the note on an existing highlight." + EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        highlight_id: {
+          type: "string",
+          description: "The ID of the highlight",
+        },
+        note: {
+          type: ["string", "null"],
+          description: "The new note, or null to clear it",
+        },
+      },
+      required: ["highlight_id", "note"],
+    },
+    outputSchema: HIGHLIGHT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_delete_highlight",
+    description: "Delete a highlight." + EXPERIMENTAL,
+    annotations: {
+      readOnlyHint: false,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        highlight_id: {
+          type: "string",
+          description: "The ID of the highlight",
+        },
+      },
+      required: ["highlight_id"],
+    },
+    outputSchema: DELETE_HIGHLIGHT_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_export_highlights",
+    description:
+      "Export highlights and notes from many articles at once, as Obsidian notes (Markdown with YAML frontmatter, one per article), Readwise-compatible CSV, or JSON. Filter by when highlights were created, by tag or by library state.",
+    annotations: {
+      readOnlyHint: true,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        format: {
+          type: "string",
+          enum: EXPORT_FORMATS,
+          description: "Export format (default: obsidian)",
+          default: "obsidian",
+        },
+        created_after: {
+          type: "string",
+          description: "Only include highlights created on or after this ISO 8601 date",
+        },
+        created_before: {
+          type: "string",
+          description: "Only include highlights created on or before this ISO 8601 date",
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only include articles that have all of these tags (case-insensitive)",
+        },
+        library_state: {
+          type: "array",
+          items: { type: "string", enum: LIBRARY_STATE_NAMES },
+          description: "Only include articles in these library states",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-download the whole library before exporting",
+        },
+      },
+    },
+    outputSchema: EXPORT_HIGHLIGHTS_OUTPUT_SCHEMA,
   },
   {
     name: "matter_save_article",
     description:
       "Save a new article to your Matter reading queue. Provide a URL and the article will be added to your queue for later reading.",
+    annotations: {
+      readOnlyHint: false,
+    },
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -59,140 +582,301 @@ export const TOOLS = [
       },
       required: ["url"],
     },
+    outputSchema: SAVE_ARTICLE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "matter_diagnostics",
+    description:
+      "Show which Matter API the server talks to, and any changes detected in the shape of its responses since the server started. Use this when Matter tools return missing or unexpected data.",
+    annotations: {
+      readOnlyHint: true,
+    },
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+    outputSchema: DIAGNOSTICS_OUTPUT_SCHEMA,
   },
 ];
 
 // Input validation schemas
-const ListArticlesInputSchema = z.object({
-  limit: z.number().min(1).max(100).optional().default(20),
-});
+const DateInputSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" })
+  .transform((value) => new Date(value));
 
-const GetArticleInputSchema = z.object({
-  article_id: z.string().min(1),
+// Arguments of matter_list_articles that pick and order the articles
+const ListQuerySchema = z.object({
+  library_state: z.array(z.enum(["QUEUE", "LATER", "ARCHIVE", "FEED"])).optional(),
+  is_favorited: z.boolean().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  author: z.string().min(1).optional(),
+  publisher: z.string().min(1).optional(),
+  language: z.string().min(1).optional(),
+  min_progress: z.number().min(0).max(100).optional(),
+  max_progress: z.number().min(0).max(100).optional(),
+  saved_after: DateInputSchema.optional(),
+  saved_before: DateInputSchema.optional(),
+  published_after: DateInputSchema.optional(),
+  published_before: DateInputSchema.optional(),
+  sort_by: z.enum(["queue_order", "library_state_date", "reading_time_minutes", "progress"]).optional(),
+  sort_order: z.enum(["asc", "desc"]).optional(),
 });
 
-const SaveArticleInputSchema = z.object({
-  url: z.string().url(),
-});
+type ListQuery = z.infer<typeof ListQuerySchema>;
 
-export function formatArticle(entry: FeedEntry): string {
-  const { content, annotations } = entry;
-  const lines: string[] = [];
+const ListArticlesInputSchema = ListQuerySchema.extend({
+  limit: z.number().min(1).max(100).optional().default(20),
+  cursor: z.string().min(1).optional(),
+  refresh: z.boolean().optional(),
+});
 
-  lines.push(`# ${content.title}`);
-  lines.push("");
+/**
+ * The filter and sort arguments that were given, as stored in cursors
+ */
+function getListQuery(input: ListQuery): Record<string, unknown> {
+  const query = Object.fromEntries(
+    Object.keys(ListQuerySchema.shape).map((key) => [key, input[key as keyof ListQuery]])
+  );
+  // Leaves out missing arguments and turns dates back into strings
+  return JSON.parse(JSON.stringify(query));
+}
 
-  // Author - check author.any_name or author.name
-  const authorName = content.author?.any_name || content.author?.name;
-  if (authorName) {
-    lines.push(`**Author:** ${authorName}`);
+/**
+ * The list that a cursor continues. Filter and sort arguments can be left out
+ * when passing a cursor, but must not differ from the ones it was made with.
+ */
+function continueList(cursor: string, given: Record<string, unknown>): { query: ListQuery; offset: number } {
+  const { offset, query = {} } = decodeCursor(cursor);
+  if (Object.keys(given).length > 0 && JSON.stringify(given) !== JSON.stringify(query)) {
+    const message = "Was returned for different filter or sort arguments";
+    throw new ValidationError(`Invalid cursor: ${message}`, [{ field: "cursor", message }]);
   }
 
-  // Publisher - check publisher.any_name or publisher.name
-  const publisherName = content.publisher?.any_name || content.publisher?.name;
-  if (publisherName) {
-    lines.push(`**Publisher:** ${publisherName}`);
+  const parsed = ListQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    const message = "Not a cursor returned by a previous page";
+    throw new ValidationError(`Invalid cursor: ${message}`, [{ field: "cursor", message }]);
   }
+  return { query: parsed.data, offset };
+}
 
-  if (content.publication_date) {
-    lines.push(`**Published:** ${content.publication_date}`);
-  }
+function toArticleFilter(input: ListQuery): ArticleFilter {
+  return {
+    libraryStates: input.library_state?.map(libraryStateFromString),
+    isFavorited: input.is_favorited,
+    tags: input.tags,
+    author: input.author,
+    publisher: input.publisher,
+    language: input.language,
+    minProgress: input.min_progress !== undefined ? input.min_progress / 100 : undefined,
+    maxProgress: input.max_progress !== undefined ? input.max_progress / 100 : undefined,
+    savedAfter: input.saved_after,
+    savedBefore: input.saved_before,
+    publishedAfter: input.published_after,
+    publishedBefore: input.published_before,
+  };
+}
 
-  lines.push(`**URL:** ${content.url}`);
+const GetArticleInputSchema = z
+  .object({
+    article_id: z.string().min(1).optional(),
+    url: z.string().min(1).optional(),
+    mode: z.enum(["full", "metadata", "highlights", "body"]).optional().default("full"),
+    part: z.number().int().min(1).optional(),
+    max_chars: z.number().int().min(MIN_CHUNK_CHARS).max(MAX_CHUNK_CHARS).optional(),
+    cursor: z.string().min(1).optional(),
+    refresh: z.boolean().optional(),
+  })
+  .refine((input) => input.article_id || input.url || input.cursor, {
+    message: "Either article_id or url is required",
+  });
 
-  // Library state is in content.library.library_state
-  if (content.library) {
-    lines.push(`**Status:** ${libraryStateToString(content.library.library_state)}`);
-  }
+const SearchInputSchema = z.object({
+  query: z.string().min(1),
+  limit: z.number().min(1).max(50).optional().default(10),
+  refresh: z.boolean().optional(),
+});
 
-  // Word count and reading time from article
-  if (content.article?.word_count) {
-    lines.push(`**Word Count:** ${content.article.word_count}`);
-  }
+const ContentIdSchema = z
+  .string()
+  .regex(/^\d+$/, { message: "Article ID must be numeric" })
+  .transform(Number);
 
-  if (content.article?.reading_time_minutes) {
-    lines.push(`**Reading Time:** ${content.article.reading_time_minutes} min`);
-  }
+const UpdateLibraryStateInputSchema = z.object({
+  article_ids: z.array(ContentIdSchema).min(1).max(100),
+  library_state: z.enum(["QUEUE", "LATER", "ARCHIVE"]),
+});
 
-  // Reading progress from history
-  const readProgress = content.history?.max_read_percentage ?? content.history?.last_read_percentage;
-  if (readProgress !== null && readProgress !== undefined) {
-    lines.push(`**Reading Progress:** ${Math.round(readProgress * 100)}%`);
-  }
+const SetFavoriteInputSchema = z.object({
+  article_id: ContentIdSchema,
+  favorited: z.boolean(),
+});
 
-  // Tags
-  if (content.tags && content.tags.length > 0) {
-    lines.push(`**Tags:** ${content.tags.map((t) => t.name).join(", ")}`);
-  }
+const SetRatingInputSchema = z.object({
+  article_id: ContentIdSchema,
+  rating: z.number().int().min(1).max(5).nullable(),
+});
 
-  // Excerpt
-  if (content.excerpt) {
-    lines.push("");
-    lines.push("## Excerpt");
-    lines.push(content.excerpt);
-  }
+const UpdateNoteInputSchema = z
+  .object({
+    article_id: ContentIdSchema,
+    note: z.string().optional(),
+    mode: z.enum(["replace", "append", "clear"]).optional().default("append"),
+  })
+  .refine((input) => input.mode === "clear" || (input.note && input.note.trim().length > 0), {
+    message: "note is required unless mode is \"clear\"",
+    path: ["note"],
+  });
 
-  // My note
-  if (content.my_note) {
-    lines.push("");
-    lines.push("## My Notes");
-    lines.push(content.my_note);
-  }
+const ListTagsInputSchema = z.object({
+  refresh: z.boolean().optional(),
+});
 
-  // Highlights/annotations - check both entry.annotations and content.my_annotations
-  const allAnnotations = [...(annotations || []), ...(content.my_annotations || [])];
-  if (allAnnotations.length > 0) {
-    lines.push("");
-    lines.push("## Highlights");
-    for (const annotation of allAnnotations) {
-      lines.push("");
-      lines.push(`> ${annotation.text}`);
-      if (annotation.note) {
-        lines.push(`  *Note: ${annotation.note}*`);
-      }
-    }
-  }
+const TagNameSchema = z.string().trim().min(1);
 
-  // Full article content if available
-  if (content.article?.markdown) {
-    lines.push("");
-    lines.push("## Full Article");
-    lines.push(content.article.markdown);
-  }
+const UpdateTagsInputSchema = z
+  .object({
+    article_ids: z.array(ContentIdSchema).min(1).max(100),
+    add: z.array(TagNameSchema).optional(),
+    remove: z.array(TagNameSchema).optional(),
+  })
+  .refine((input) => (input.add?.length ?? 0) + (input.remove?.length ?? 0) > 0, {
+    message: "At least one tag to add or remove is required",
+  });
 
-  return lines.join("\n");
-}
+const RenameTagInputSchema = z.object({
+  from: TagNameSchema,
+  to: TagNameSchema,
+});
+
+const CreateHighlightInputSchema = z
+  .object({
+    article_id: ContentIdSchema,
+    quote: z.string().min(1).optional(),
+    occurrence: z.number().int().min(1).optional(),
+    word_start: z.number().int().min(0).optional(),
+    word_end: z.number().int().min(1).optional(),
+    note: z.string().optional(),
+  })
+  .refine(
+    (input) => (input.quote !== undefined) !== (input.word_start !== undefined && input.word_end !== undefined),
+    { message: "Provide either quote or both word_start and word_end" }
+  );
+
+const UpdateHighlightInputSchema = z.object({
+  highlight_id: z.string().min(1),
+  note: z.string().nullable(),
+});
 
-export function formatArticleList(entries: FeedEntry[]): string {
-  const lines: string[] = [];
-  lines.push(`Found ${entries.length} articles:\n`);
+const DeleteHighlightInputSchema = z.object({
+  highlight_id: z.string().min(1),
+});
+
+const ExportHighlightsInputSchema = z.object({
+  format: z.enum(["obsidian", "readwise_csv", "json"]).optional().default("obsidian"),
+  created_after: DateInputSchema.optional(),
+  created_before: DateInputSchema.optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  library_state: z.array(z.enum(["QUEUE", "LATER", "ARCHIVE", "FEED"])).optional(),
+  refresh: z.boolean().optional(),
+});
+
+const SaveArticleInputSchema = z.object({
+  url: z.string().url(),
+});
 
-  for (const entry of entries) {
-    const { content } = entry;
+const DiagnosticsInputSchema = z.object({});
 
-    // Get reading progress from history
-    const readProgress = content.history?.max_read_percentage ?? content.history?.last_read_percentage ?? 0;
-    const progress = Math.round(readProgress * 100);
+export interface MatterServerOptions {
+  // Local library cache (default: in memory)
+  store?: LibraryStore;
+  // Called with the new tokens whenever the access token is refreshed. The
+  // request that triggered the refresh waits for a returned promise.
+  onTokenRefresh?: (tokens: MatterTokens) => void | Promise<void>;
+  // Only offer tools that don't change the library (default: false)
+  readOnly?: boolean;
+  // Matter API settings (default: from the environment)
+  config?: MatterConfig;
+  // Let clients subscribe to resources, which are then polled for changes.
+  // Only useful where the server stays connected (default: false)
+  subscriptions?: boolean;
+}
 
-    // Get author name
-    const authorName = content.author?.any_name || content.author?.name;
-    const author = authorName ? ` by ${authorName}` : "";
+// Tools that change the library, hidden in read-only mode
+const WRITE_TOOL_NAMES = new Set(TOOLS.filter((tool) => !tool.annotations.readOnlyHint).map((tool) => tool.name));
 
-    // Get library state
-    const status = content.library ? libraryStateToString(content.library.library_state) : "UNKNOWN";
+/**
+ * Describe a failed tool call so the model can tell what went wrong and what
+ * to do next. `_meta.error` repeats the details in machine-readable form.
+ */
+function toToolError(error: unknown): CallToolResult {
+  if (error instanceof z.ZodError) {
+    error = ValidationError.fromZodError(error);
+  }
 
-    lines.push(`- **${content.title}**${author}`);
-    lines.push(`  ID: ${content.id}`);
-    lines.push(`  URL: ${content.url}`);
-    lines.push(`  Status: ${status} | Progress: ${progress}%`);
-    lines.push("");
+  let text: string;
+  let details: Record<string, unknown>;
+  if (error instanceof ValidationError) {
+    const lines = error.issues.map((issue) =>
+      issue.field ? `- ${issue.field}: ${issue.message}` : `- ${issue.message}`
+    );
+    text = error.issues.length === 1 && !error.issues[0].field
+      ? `Invalid arguments: ${error.message}`
+      : `Invalid arguments:\n${lines.join("\n")}`;
+    details = { code: error.code, issues: error.issues };
+  } else if (error instanceof MatterAuthError) {
+    text =
+      "Matter no longer accepts the saved login. Ask the user to reconnect their Matter account " +
+      "(reconnect the connector, or run the server's `login` command when running it locally), then try again.";
+    details = { code: error.code, status: error.status };
+  } else if (error instanceof MatterNotFoundError) {
+    text = `${error.message}. Check the ID, e.g. with matter_list_articles or matter_search.`;
+    details = { code: error.code, status: error.status };
+  } else if (error instanceof MatterRateLimitError) {
+    const retryAfterSeconds = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+    text = retryAfterSeconds !== undefined
+      ? `Matter is rate limiting requests. Try again in ${retryAfterSeconds} seconds.`
+      : "Matter is rate limiting requests. Try again in a minute.";
+    details = { code: error.code, status: error.status, retryAfterSeconds };
+  } else if (error instanceof MatterResponseError) {
+    const lines = error.issues.map((issue) =>
+      issue.field ? `- ${issue.field}: ${issue.message}` : `- ${issue.message}`
+    );
+    text =
+      "Matter responded in an unexpected shape, possibly because its API changed:\n" +
+      `${lines.join("\n")}\n\nmatter_diagnostics lists all changes detected so far.`;
+    details = { code: error.code, issues: error.issues };
+  } else if (error instanceof MatterAPIError) {
+    text = error.status >= 500
+      ? `Matter failed to handle the request (${error.message}). This is usually temporary, so try again later.`
+      : `Matter rejected the request (${error.message}).`;
+    details = { code: error.code, status: error.status };
+  } else if (error instanceof MatterNetworkError) {
+    text = `${error.message}. Try again once Matter is reachable.`;
+    details = { code: error.code };
+  } else if (error instanceof ReadOnlyError || error instanceof UnknownToolError) {
+    text = error.message;
+    details = { code: error.code, tool: error.tool };
+  } else {
+    text = error instanceof Error ? error.message : String(error);
+    details = { code: "internal_error" };
   }
 
-  return lines.join("\n");
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${text}`,
+      },
+    ],
+    isError: true,
+    _meta: { error: details },
+  };
 }
 
-export function createMatterServer(tokens: MatterTokens): Server {
-  const client = new MatterClient(tokens);
+export function createMatterServer(tokens: MatterTokens, options: MatterServerOptions = {}): Server {
+  const client = new MatterClient(tokens, options.onTokenRefresh, { store: options.store, config: options.config });
 
   const server = new Server(
     {
@@ -202,47 +886,401 @@ export function createMatterServer(tokens: MatterTokens): Server {
     {
       capabilities: {
         tools: {},
+        resources: options.subscriptions ? { subscribe: true } : {},
+        prompts: {},
+        ...(options.subscriptions && { logging: {} }),
       },
     }
   );
 
+  registerResources(server, client, { subscriptions: options.subscriptions });
+  registerPrompts(server, client);
+
   // Handle tool listing
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: TOOLS };
+    return {
+      tools: options.readOnly ? TOOLS.filter((tool) => !WRITE_TOOL_NAMES.has(tool.name)) : TOOLS,
+    };
   });
 
-  // Handle tool execution
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  // Handle tool execution, cancelling Matter API requests if the client
+  // cancels the tool call
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    return client.withSignal(extra.signal, () => callTool(name, args));
+  });
 
+  async function callTool(name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult> {
     try {
+      if (options.readOnly && WRITE_TOOL_NAMES.has(name)) {
+        throw new ReadOnlyError(name);
+      }
+
       switch (name) {
         case "matter_list_articles": {
           const input = ListArticlesInputSchema.parse(args);
-          const { articles } = await client.getArticles({ limit: input.limit });
+          const given = getListQuery(input);
+          const { query, offset } = input.cursor ? continueList(input.cursor, given) : { query: input, offset: 0 };
+          const filter = toArticleFilter(query);
+          const library = await client.getLibrary({ refresh: input.refresh });
+
+          const matching = library.filter((entry) => matchesFilter(entry, filter));
+          const sorted = query.sort_by ? sortArticles(matching, query.sort_by, query.sort_order) : matching;
+          const articles = sorted.slice(offset, offset + input.limit);
+          const nextOffset = offset + articles.length;
+          const nextCursor =
+            nextOffset < sorted.length ? encodeCursor({ offset: nextOffset, query: getListQuery(query) }) : null;
+
           return {
             content: [
               {
                 type: "text",
-                text: formatArticleList(articles),
+                text: formatArticleList(articles, nextCursor),
               },
             ],
+            structuredContent: {
+              articles: articles.map(toArticleSummaryOutput),
+              total: sorted.length,
+              next_cursor: nextCursor,
+            },
           };
         }
 
         case "matter_get_article": {
           const input = GetArticleInputSchema.parse(args);
-          const article = await client.getArticle(input.article_id);
+          const cursor = input.cursor ? decodeArticleCursor(input.cursor) : null;
+          const articleId = input.article_id ?? (cursor ? String(cursor.contentId) : undefined);
+          const idOrUrl = articleId ?? input.url;
+          if (idOrUrl === undefined) {
+            throw new ValidationError("Either article_id or url is required");
+          }
+          const article = await client.getArticle(idOrUrl, { refresh: input.refresh });
+
+          if (!article) {
+            throw new MatterNotFoundError(
+              articleId ? `Article with ID "${articleId}" not found` : `Article with URL "${input.url}" not found`
+            );
+          }
+          if (cursor && cursor.contentId !== article.content.id) {
+            throw new ValidationError("Cursor belongs to a different article", [
+              { field: "cursor", message: "Belongs to a different article" },
+            ]);
+          }
+
+          const markdown = article.content.article?.markdown ?? "";
+          const maxChars = cursor?.maxChars ?? input.max_chars ?? DEFAULT_CHUNK_CHARS;
+          const headings = getHeadings(markdown);
+          const chunks = splitIntoChunks(markdown, maxChars, headings);
+          const tableOfContents = getTableOfContents(headings, chunks);
+          const withHighlights = input.mode === "full" || input.mode === "highlights";
+          const body =
+            (input.mode === "full" || input.mode === "body") && markdown
+              ? getArticlePart(markdown, chunks, cursor?.part ?? input.part ?? 1, {
+                  contentId: article.content.id,
+                  maxChars,
+                })
+              : null;
+
+          const sections: string[] = [];
+          if (input.mode === "full" || input.mode === "metadata") {
+            sections.push(formatArticleMetadata(article));
+          } else {
+            sections.push(`# ${article.content.title}`);
+          }
+          if (input.mode === "metadata" && markdown) {
+            const length = `**Length:** ${markdown.length} characters in ${chunks.length} part(s)`;
+            sections.push(
+              tableOfContents.length > 0
+                ? `${length}\n\n## Contents\n${formatTableOfContents(tableOfContents)}`
+                : length
+            );
+          }
+          if (input.mode === "highlights" || (withHighlights && getHighlights(article).length > 0)) {
+            sections.push(formatHighlights(article));
+          }
+          if (body) {
+            sections.push(formatArticlePart(body, tableOfContents));
+          } else if (input.mode === "body") {
+            sections.push("This article has no text.");
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: sections.join("\n\n"),
+              },
+            ],
+            structuredContent: {
+              article: toArticleOutput(article, { highlights: withHighlights }),
+              table_of_contents: tableOfContents,
+              ...(input.mode === "full" || input.mode === "body"
+                ? { body: body ? toArticleBodyOutput(body) : null }
+                : {}),
+            },
+          };
+        }
+
+        case "matter_search": {
+          const input = SearchInputSchema.parse(args);
+          const index = await client.getSearchIndex({ refresh: input.refresh });
+          const results = index.search(input.query, input.limit);
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatSearchResults(input.query, results),
+              },
+            ],
+            structuredContent: {
+              query: input.query,
+              results: results.map((result) => ({
+                article: toArticleSummaryOutput(result.entry),
+                score: result.score,
+                matches: result.matches,
+              })),
+            },
+          };
+        }
+
+        case "matter_update_library_state": {
+          const input = UpdateLibraryStateInputSchema.parse(args);
+          const results = await client.updateLibraryStates(
+            input.article_ids,
+            libraryStateFromString(input.library_state)
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatBatchResults(
+                  `Move to ${input.library_state}`,
+                  results,
+                  (library) =>
+                    `${libraryStateToString(library.library_state)} since ${library.library_state_date}`
+                ),
+              },
+            ],
+            structuredContent: {
+              results: toBatchOutput(results, (library) => ({
+                library_state: libraryStateToString(library.library_state),
+                library_state_date: library.library_state_date,
+              })),
+            },
+            isError: results.every((r) => r.error !== undefined),
+          };
+        }
+
+        case "matter_set_favorite": {
+          const input = SetFavoriteInputSchema.parse(args);
+          const library = await client.setFavorited(input.article_id, input.favorited);
+          return {
+            content: [
+              {
+                type: "text",
+                text: library.is_favorited
+                  ? `Article ${input.article_id} added to favorites.`
+                  : `Article ${input.article_id} removed from favorites.`,
+              },
+            ],
+            structuredContent: { article_id: String(input.article_id), is_favorited: library.is_favorited },
+          };
+        }
+
+        case "matter_set_rating": {
+          const input = SetRatingInputSchema.parse(args);
+          const library = await client.setRating(input.article_id, input.rating);
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  library.rating !== null
+                    ? `Article ${input.article_id} rated ${library.rating}.`
+                    : `Rating cleared for article ${input.article_id}.`,
+              },
+            ],
+            structuredContent: { article_id: String(input.article_id), rating: library.rating },
+          };
+        }
+
+        case "matter_update_note": {
+          const input = UpdateNoteInputSchema.parse(args);
+          let result: NoteResponse;
+          if (input.mode === "clear") {
+            result = await client.setNote(input.article_id, null);
+          } else if (input.mode === "replace") {
+            result = await client.setNote(input.article_id, input.note!);
+          } else {
+            result = await client.appendToNote(input.article_id, input.note!);
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: result.my_note
+                  ? `Note updated for article ${input.article_id}:\n\n${result.my_note}`
+                  : `Note cleared for article ${input.article_id}.`,
+              },
+            ],
+            structuredContent: { article_id: String(input.article_id), note: result.my_note },
+          };
+        }
+
+        case "matter_list_tags": {
+          const input = ListTagsInputSchema.parse(args);
+          const tags = await client.getTags({ refresh: input.refresh });
+          const text =
+            tags.length > 0
+              ? [`Found ${tags.length} tags:\n`, ...tags.map((t) => `- ${t.name} (${t.count})`)].join("\n")
+              : "No tags found.";
+          return {
+            content: [
+              {
+                type: "text",
+                text,
+              },
+            ],
+            structuredContent: { tags },
+          };
+        }
+
+        case "matter_update_tags": {
+          const input = UpdateTagsInputSchema.parse(args);
+          const results = await client.updateTags(input.article_ids, { add: input.add, remove: input.remove });
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatBatchResults("Update tags", results, formatTags),
+              },
+            ],
+            structuredContent: { results: toBatchOutput(results, (tags) => ({ tags: tags.map((t) => t.name) })) },
+            isError: results.every((r) => r.error !== undefined),
+          };
+        }
+
+        case "matter_rename_tag": {
+          const input = RenameTagInputSchema.parse(args);
+          const results = await client.renameTag(input.from, input.to);
+          if (results.length === 0) {
+            throw new MatterNotFoundError(`No articles are tagged "${input.from}"`);
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatBatchResults(`Rename tag "${input.from}" to "${input.to}"`, results, formatTags),
+              },
+            ],
+            structuredContent: { results: toBatchOutput(results, (tags) => ({ tags: tags.map((t) => t.name) })) },
+            isError: results.every((r) => r.error !== undefined),
+          };
+        }
+
+        case "matter_create_highlight": {
+          const input = CreateHighlightInputSchema.parse(args);
+          const article = await client.getArticle(String(input.article_id));
+          const markdown = article?.content.article?.markdown;
 
           if (!article) {
+            throw new MatterNotFoundError(`Article with ID "${input.article_id}" not found`);
+          }
+          if (!markdown) {
+            throw new ValidationError(`Article ${input.article_id} has no text to highlight`, [
+              { field: "article_id", message: "The article has no text to highlight" },
+            ]);
+          }
+
+          const span =
+            input.quote !== undefined
+              ? findQuoteSpan(markdown, input.quote, input.occurrence)
+              : getWordRangeSpan(markdown, input.word_start!, input.word_end!);
+          const annotation = await client.createHighlight(input.article_id, { ...span, note: input.note });
+
+          const lines = [
+            `Highlight created (ID: ${annotation.id}, words ${span.wordStart}-${span.wordEnd}):`,
+            "",
+            `> ${annotation.text}`,
+          ];
+          if (annotation.note) {
+            lines.push(`  *Note: ${annotation.note}*`);
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: lines.join("\n"),
+              },
+            ],
+            structuredContent: { article_id: String(input.article_id), highlight: toHighlightOutput(annotation) },
+          };
+        }
+
+        case "matter_update_highlight": {
+          const input = UpdateHighlightInputSchema.parse(args);
+          const annotation = await client.updateHighlightNote(input.highlight_id, input.note);
+          return {
+            content: [
+              {
+                type: "text",
+                text: annotation.note
+                  ? `Note updated on highlight ${annotation.id}: ${annotation.note}`
+                  : `Note cleared on highlight ${annotation.id}.`,
+              },
+            ],
+            structuredContent: { highlight: toHighlightOutput(annotation) },
+          };
+        }
+
+        case "matter_delete_highlight": {
+          const input = DeleteHighlightInputSchema.parse(args);
+          await client.deleteHighlight(input.highlight_id);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Highlight ${input.highlight_id} deleted.`,
+              },
+            ],
+            structuredContent: { highlight_id: input.highlight_id, deleted: true },
+          };
+        }
+
+        case "matter_export_highlights": {
+          const input = ExportHighlightsInputSchema.parse(args);
+          const library = await client.getLibrary({ refresh: input.refresh });
+          const filter: ArticleFilter = {
+            tags: input.tags,
+            libraryStates: input.library_state?.map(libraryStateFromString),
+          };
+          const articles = collectHighlights(
+            library.filter((entry) => matchesFilter(entry, filter)),
+            { createdAfter: input.created_after, createdBefore: input.created_before }
+          );
+
+          const structuredContent = { format: input.format, articles: toExportData(articles) };
+
+          if (articles.length === 0) {
             return {
               content: [
                 {
                   type: "text",
-                  text: `Article with ID "${input.article_id}" not found.`,
+                  text: "No highlights found.",
                 },
               ],
-              isError: true,
+              structuredContent,
+            };
+          }
+
+          if (input.format === "obsidian") {
+            // One note per article, each ready to be saved as its own file
+            return {
+              content: articles.map((article) => ({
+                type: "text",
+                text: toObsidianMarkdown(article),
+              })),
+              structuredContent,
             };
           }
 
@@ -250,9 +1288,10 @@ export function createMatterServer(tokens: MatterTokens): Server {
             content: [
               {
                 type: "text",
-                text: formatArticle(article),
+                text: input.format === "readwise_csv" ? toReadwiseCsv(articles) : toJson(articles),
               },
             ],
+            structuredContent,
           };
         }
 
@@ -266,33 +1305,42 @@ export function createMatterServer(tokens: MatterTokens): Server {
                 text: `Article saved successfully!\nURL: ${input.url}\nContent ID: ${result.content_id}\nEntry ID: ${result.id}`,
               },
             ],
+            structuredContent: { url: input.url, article_id: String(result.content_id), entry_id: result.id },
           };
         }
 
-        default:
+        case "matter_diagnostics": {
+          DiagnosticsInputSchema.parse(args ?? {});
+          const diagnostics = client.getDiagnostics();
           return {
             content: [
               {
                 type: "text",
-                text: `Unknown tool: ${name}`,
+                text: formatDiagnostics(diagnostics),
               },
             ],
-            isError: true,
+            structuredContent: {
+              api_url: diagnostics.apiUrl,
+              strict_schemas: diagnostics.strictSchemas,
+              schema_drift: diagnostics.schemaDrift.map((drift) => ({
+                response: drift.response,
+                field: drift.field,
+                problem: drift.problem,
+                count: drift.count,
+                first_seen: drift.firstSeen,
+                last_seen: drift.lastSeen,
+              })),
+            },
           };
+        }
+
+        default:
+          throw new UnknownToolError(name);
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+      return toToolError(error);
     }
-  });
+  }
 
   return server;
 }
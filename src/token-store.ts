@@ -0,0 +1,65 @@
+/**
+ * Matter Token Storage
+ *
+ * Matter rotates its refresh token every time the access token is refreshed,
+ * which leaves the pair sealed inside the OAuth tokens stale. The hosted
+ * server keeps the latest pair of each grant here, sealed with the OAuth
+ * key, and prefers it over the pair inside the token. Like revocations, it
+ * is only shared between function instances if Redis is configured.
+ */
+
+import { getRedisClient, type RedisRestClient } from "./redis.js";
+
+export interface TokenStore {
+  // The sealed Matter token pair last saved for the grant, if any
+  get(grantId: string): Promise<string | null>;
+  set(grantId: string, sealedTokens: string): Promise<void>;
+}
+
+/**
+ * Keeps token pairs in memory only
+ */
+export class MemoryTokenStore implements TokenStore {
+  private readonly tokens = new Map<string, string>();
+
+  async get(grantId: string): Promise<string | null> {
+    return this.tokens.get(grantId) ?? null;
+  }
+
+  async set(grantId: string, sealedTokens: string): Promise<void> {
+    this.tokens.set(grantId, sealedTokens);
+  }
+}
+
+/**
+ * Keeps token pairs in Redis
+ */
+export class RedisTokenStore implements TokenStore {
+  constructor(
+    private readonly redis: RedisRestClient,
+    private readonly prefix = "getmatter-mcp:tokens:"
+  ) {}
+
+  async get(grantId: string): Promise<string | null> {
+    const result = await this.redis.command(["GET", this.prefix + grantId]);
+    return typeof result === "string" ? result : null;
+  }
+
+  async set(grantId: string, sealedTokens: string): Promise<void> {
+    await this.redis.command(["SET", this.prefix + grantId, sealedTokens]);
+  }
+}
+
+let defaultStore: TokenStore | null = null;
+
+/**
+ * The token store for the hosted server: Redis if the Vercel KV or Upstash
+ * environment variables are set, otherwise memory.
+ */
+export function getTokenStore(env: NodeJS.ProcessEnv = process.env): TokenStore {
+  if (!defaultStore) {
+    const redis = getRedisClient(env);
+    defaultStore = redis ? new RedisTokenStore(redis) : new MemoryTokenStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findQuoteSpan, getWordRangeSpan, toPlainText } from "../src/highlights.js";
+
+const markdown = [
+  "# A **bold** title",
+  "",
+  "Read [the docs](https://example.com/a_b) first. ![A diagram](diagram.png)",
+  "",
+  "- One *point*",
+  "- Another point",
+  "",
+  "> Quoted `code`, and 2 * 3 = 6.",
+].join("\n");
+
+describe("toPlainText", () => {
+  it("strips Markdown syntax but keeps the text", () => {
+    assert.deepEqual(toPlainText(markdown).split(/\s+/).filter(Boolean), [
+      "A", "bold", "title",
+      "Read", "the", "docs", "first.",
+      "One", "point",
+      "Another", "point",
+      "Quoted", "code,", "and", "2", "*", "3", "=", "6.",
+    ]);
+  });
+
+  it("keeps escaped characters and underscores inside words", () => {
+    assert.equal(toPlainText("\\*not emphasis\\* in snake_case"), "*not emphasis* in snake_case");
+  });
+});
+
+describe("findQuoteSpan", () => {
+  it("counts words without the Markdown syntax", () => {
+    assert.deepEqual(findQuoteSpan(markdown, "the docs first"), { wordStart: 4, wordEnd: 7, text: "the docs first." });
+  });
+
+  it("ignores case and punctuation in the quote", () => {
+    assert.equal(findQuoteSpan(markdown, "QUOTED CODE and").wordStart, 11);
+  });
+
+  it("refuses ambiguous quotes unless an occurrence is picked", () => {
+    assert.throws(() => findQuoteSpan(markdown, "point"), /appears 2 times/);
+    assert.equal(findQuoteSpan(markdown, "point", 2).wordStart, 10);
+    assert.throws(() => findQuoteSpan(markdown, "point", 3), /between 1 and 2/);
+  });
+
+  it("refuses quotes that aren't in the article", () => {
+    assert.throws(() => findQuoteSpan(markdown, "diagram"), /not found/);
+  });
+});
+
+describe("getWordRangeSpan", () => {
+  it("returns the text of the range", () => {
+    assert.equal(getWordRangeSpan(markdown, 0, 3).text, "A bold title");
+  });
+
+  it("rejects ranges outside the article", () => {
+    assert.throws(() => getWordRangeSpan(markdown, 5, 5), /Invalid word range/);
+    assert.throws(() => getWordRangeSpan(markdown, 0, 20), /19 words/);
+  });
+});
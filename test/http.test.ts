@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getRetryDelay, isRetryable, parseRetryAfter } from "../src/http.js";
+
+describe("isRetryable", () => {
+  it("retries idempotent requests that got no response or a server error", () => {
+    assert.equal(isRetryable("GET"), true);
+    assert.equal(isRetryable("delete", 503), true);
+    assert.equal(isRetryable("PUT", 408), true);
+  });
+
+  it("doesn't retry client errors", () => {
+    assert.equal(isRetryable("GET", 400), false);
+    assert.equal(isRetryable("GET", 404), false);
+  });
+
+  it("never replays writes that may have been applied", () => {
+    assert.equal(isRetryable("POST"), false);
+    assert.equal(isRetryable("POST", 500), false);
+    assert.equal(isRetryable("PATCH"), false);
+    assert.equal(isRetryable("PATCH", 502), false);
+  });
+
+  it("retries rate-limited requests whatever the method", () => {
+    assert.equal(isRetryable("POST", 429), true);
+    assert.equal(isRetryable("PATCH", 429), true);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("reads seconds and HTTP dates", () => {
+    assert.equal(parseRetryAfter("3", now), 3000);
+    assert.equal(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now), 10000);
+  });
+
+  it("clamps dates in the past to no delay", () => {
+    assert.equal(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now), 0);
+  });
+
+  it("ignores missing and malformed values", () => {
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("waits as long as Retry-After asks", () => {
+    assert.equal(getRetryDelay(0, "2"), 2000);
+    assert.equal(getRetryDelay(5, "0"), 0);
+  });
+
+  it("gives up when Retry-After asks to wait too long", () => {
+    assert.equal(getRetryDelay(0, "31"), null);
+  });
+
+  it("backs off exponentially with jitter, up to a cap", () => {
+    for (let i = 0; i < 50; i++) {
+      const first = getRetryDelay(0);
+      const third = getRetryDelay(2);
+      const late = getRetryDelay(20);
+      assert.ok(first !== null && first >= 0 && first < 500);
+      assert.ok(third !== null && third >= 0 && third < 2000);
+      assert.ok(late !== null && late >= 0 && late < 8000);
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalizeUrl } from "../src/library-index.js";
+
+describe("canonicalizeUrl", () => {
+  it("ignores the scheme, www., case of the host, fragments and trailing slashes", () => {
+    const canonical = canonicalizeUrl("https://example.com/posts/hello");
+    for (const url of [
+      "http://example.com/posts/hello",
+      "https://www.example.com/posts/hello/",
+      "https://EXAMPLE.com/posts/hello#comments",
+      "  https://example.com/posts/hello  ",
+    ]) {
+      assert.equal(canonicalizeUrl(url), canonical, url);
+    }
+  });
+
+  it("keeps the case of the path", () => {
+    assert.notEqual(canonicalizeUrl("https://example.com/Post"), canonicalizeUrl("https://example.com/post"));
+  });
+
+  it("drops tracking parameters and sorts the rest", () => {
+    assert.equal(
+      canonicalizeUrl("https://example.com/a?utm_source=x&b=2&fbclid=y&a=1&UTM_Medium=z"),
+      "example.com/a?a=1&b=2"
+    );
+    assert.equal(canonicalizeUrl("https://example.com/a?utm_source=x"), "example.com/a");
+  });
+
+  it("keeps parameters that pick the content", () => {
+    assert.notEqual(
+      canonicalizeUrl("https://news.example.com/item?id=1"),
+      canonicalizeUrl("https://news.example.com/item?id=2")
+    );
+  });
+
+  it("falls back to the trimmed, lowercased text for invalid URLs", () => {
+    assert.equal(canonicalizeUrl(" Not A URL "), "not a url");
+  });
+});
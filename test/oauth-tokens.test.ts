@@ -0,0 +1,158 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeCodeChallenge,
+  getAccessTokenExpiry,
+  getOAuthKey,
+  isValidCodeChallenge,
+  issueAccessToken,
+  issueAuthorizationCode,
+  issueRefreshToken,
+  openMatterTokens,
+  parseScope,
+  sealMatterTokens,
+  verifyCodeVerifier,
+  verifyToken,
+} from "../src/oauth-tokens.js";
+
+const key = getOAuthKey({ OAUTH_TOKEN_SECRET: "a".repeat(32) });
+const otherKey = getOAuthKey({ OAUTH_TOKEN_SECRET: "b".repeat(32) });
+const tokens = { accessToken: "matter-access", refreshToken: "matter-refresh" };
+const grant = { grantId: "grant-1", clientId: "client-1", scope: "read write" };
+const now = Date.parse("2026-01-01T00:00:00Z");
+
+function jwt(claims: object): string {
+  return ["header", Buffer.from(JSON.stringify(claims)).toString("base64url"), "signature"].join(".");
+}
+
+describe("getOAuthKey", () => {
+  it("refuses missing or short secrets", () => {
+    assert.throws(() => getOAuthKey({}), /OAUTH_TOKEN_SECRET/);
+    assert.throws(() => getOAuthKey({ OAUTH_TOKEN_SECRET: "short" }), /at least 32/);
+  });
+});
+
+describe("OAuth tokens", () => {
+  it("round-trip the Matter tokens and the grant", () => {
+    const { token } = issueAccessToken(key, tokens, grant, now);
+    const verification = verifyToken(key, "access_token", token, now);
+    assert.equal(verification.status, "valid");
+    assert.ok(verification.status === "valid");
+    assert.deepEqual(verification.tokens, tokens);
+    assert.equal(verification.payload.grantId, grant.grantId);
+    assert.equal(verification.payload.clientId, grant.clientId);
+    assert.equal(verification.payload.scope, grant.scope);
+  });
+
+  it("can't be read by the client", () => {
+    const { token } = issueAccessToken(key, tokens, grant, now);
+    const decoded = Buffer.from(token, "base64url").toString("latin1");
+    assert.ok(!decoded.includes(tokens.accessToken));
+    assert.ok(!decoded.includes(tokens.refreshToken));
+  });
+
+  it("reject tampering, other keys and garbage", () => {
+    const { token } = issueAccessToken(key, tokens, grant, now);
+    const data = Buffer.from(token, "base64url");
+    data[20] ^= 1;
+    assert.equal(verifyToken(key, "access_token", data.toString("base64url"), now).status, "invalid");
+    assert.equal(verifyToken(otherKey, "access_token", token, now).status, "invalid");
+    assert.equal(verifyToken(key, "access_token", "not-a-token", now).status, "invalid");
+  });
+
+  it("can't be passed off as another type of token", () => {
+    const refreshToken = issueRefreshToken(key, tokens, grant);
+    assert.equal(verifyToken(key, "refresh_token", refreshToken, now).status, "valid");
+    assert.equal(verifyToken(key, "access_token", refreshToken, now).status, "invalid");
+    assert.equal(verifyToken(key, "authorization_code", refreshToken, now).status, "invalid");
+    assert.equal(openMatterTokens(key, refreshToken), null);
+  });
+
+  it("expire after an hour, or with the Matter access token", () => {
+    const { token, expiresAt } = issueAccessToken(key, tokens, grant, now);
+    assert.equal(expiresAt, now / 1000 + 3600);
+    assert.equal(verifyToken(key, "access_token", token, now + 3599 * 1000).status, "valid");
+    assert.equal(verifyToken(key, "access_token", token, now + 3600 * 1000).status, "expired");
+
+    const shortLived = { ...tokens, accessToken: jwt({ exp: now / 1000 + 60 }) };
+    assert.equal(issueAccessToken(key, shortLived, grant, now).expiresAt, now / 1000 + 60);
+  });
+
+  it("leave refresh tokens without an expiry", () => {
+    const refreshToken = issueRefreshToken(key, tokens, grant);
+    assert.equal(verifyToken(key, "refresh_token", refreshToken, now + 365 * 24 * 3600 * 1000).status, "valid");
+  });
+
+  it("bind authorization codes to the authorization request", () => {
+    const binding = {
+      clientId: "client-1",
+      redirectUri: "https://client.example/callback",
+      codeChallenge: computeCodeChallenge("v".repeat(43)),
+      scope: "read",
+    };
+    const code = issueAuthorizationCode(key, tokens, binding, now);
+    const verification = verifyToken(key, "authorization_code", code, now);
+    assert.ok(verification.status === "valid");
+    assert.deepEqual(verification.payload.binding, binding);
+    assert.equal(verification.payload.scope, "read");
+    assert.equal(verifyToken(key, "authorization_code", code, now + 5 * 60 * 1000).status, "expired");
+  });
+
+  it("seal rotated Matter tokens on their own", () => {
+    const sealed = sealMatterTokens(key, tokens);
+    assert.deepEqual(openMatterTokens(key, sealed), tokens);
+    assert.equal(openMatterTokens(otherKey, sealed), null);
+    assert.equal(verifyToken(key, "refresh_token", sealed, now).status, "invalid");
+  });
+});
+
+describe("getAccessTokenExpiry", () => {
+  it("reads the exp claim of a JWT", () => {
+    assert.equal(getAccessTokenExpiry(jwt({ exp: 1234 }), now), 1234);
+  });
+
+  it("falls back to an hour for tokens it can't read", () => {
+    assert.equal(getAccessTokenExpiry("opaque", now), now / 1000 + 3600);
+    assert.equal(getAccessTokenExpiry(jwt({ sub: "x" }), now), now / 1000 + 3600);
+  });
+});
+
+describe("parseScope", () => {
+  it("normalizes the order and drops duplicates", () => {
+    assert.deepEqual(parseScope("write read write"), ["read", "write"]);
+    assert.deepEqual(parseScope("read"), ["read"]);
+  });
+
+  it("rejects unknown and empty scopes", () => {
+    assert.equal(parseScope("read admin"), null);
+    assert.equal(parseScope(" "), null);
+  });
+});
+
+describe("PKCE", () => {
+  // RFC 7636 appendix B
+  const verifier = "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk";
+  const challenge = "E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM";
+
+  it("computes the S256 challenge from the RFC example", () => {
+    assert.equal(computeCodeChallenge(verifier), challenge);
+    assert.equal(isValidCodeChallenge(challenge), true);
+  });
+
+  it("accepts only the matching verifier", () => {
+    assert.equal(verifyCodeVerifier(challenge, verifier), true);
+    assert.equal(verifyCodeVerifier(challenge, verifier.slice(0, -1) + "l"), false);
+  });
+
+  it("rejects verifiers that don't follow RFC 7636", () => {
+    const short = "a".repeat(42);
+    assert.equal(verifyCodeVerifier(computeCodeChallenge(short), short), false);
+    const invalid = "a".repeat(42) + "!";
+    assert.equal(verifyCodeVerifier(computeCodeChallenge(invalid), invalid), false);
+  });
+
+  it("rejects malformed challenges", () => {
+    assert.equal(isValidCodeChallenge("plain-text-challenge"), false);
+    assert.equal(isValidCodeChallenge(challenge + "A"), false);
+  });
+});
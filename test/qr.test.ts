@@ -0,0 +1,243 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { QrCode, renderQrAsSvg, renderQrForTerminal } from "../src/qr.js";
+
+// A small decoder for error correction level M, versions 1-10, written from
+// ISO/IEC 18004 rather than from the encoder, so the two check each other.
+
+// Format information for level M with masks 0-7, already XOR-masked
+const FORMAT_M = [
+  0b101010000010010, 0b101000100100101, 0b101111001111100, 0b101101101001011, 0b100010111111001,
+  0b100000011001110, 0b100111110010111, 0b100101010100000,
+];
+// Version information for versions 7-10
+const VERSION_INFO: Record<number, number> = { 7: 0x07c94, 8: 0x085bc, 9: 0x09a99, 10: 0x0a4d3 };
+// Alignment pattern centers for versions 1-10
+const ALIGNMENT = [
+  [], [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50],
+];
+// Total codewords, blocks and error correction codewords per block, for level M
+const CODEWORDS = [0, 26, 44, 70, 100, 134, 172, 196, 242, 292, 346];
+const BLOCKS_M = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const ECC_PER_BLOCK_M = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+// GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP: number[] = [];
+for (let i = 0, x = 1; i < 255; i++, x = x & 0x80 ? ((x << 1) ^ 0x11d) : x << 1) {
+  EXP.push(x);
+}
+
+function evaluate(codewords: number[], point: number): number {
+  let result = 0;
+  for (const codeword of codewords) {
+    // result * point in GF(2^8), via the exponent table
+    const product = result === 0 ? 0 : EXP[(EXP.indexOf(result) + EXP.indexOf(point)) % 255];
+    result = product ^ codeword;
+  }
+  return result;
+}
+
+function isFunctionModule(version: number, x: number, y: number): boolean {
+  const size = version * 4 + 17;
+  if ((x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8)) {
+    return true;
+  }
+  if (x === 6 || y === 6) {
+    return true;
+  }
+  if (version >= 7 && ((x >= size - 11 && x < size - 8 && y < 6) || (y >= size - 11 && y < size - 8 && x < 6))) {
+    return true;
+  }
+  const centers = ALIGNMENT[version];
+  return centers.some((cx, i) =>
+    centers.some((cy, j) => {
+      const last = centers.length - 1;
+      const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+      return !overlapsFinder && Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2;
+    })
+  );
+}
+
+function decode(qr: QrCode): string {
+  const { version, size } = qr;
+  assert.ok(version >= 1 && version <= 10, "the decoder only supports versions 1-10");
+  assert.equal(size, version * 4 + 17);
+
+  // Finder patterns in three corners
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -3; dy <= 3; dy++) {
+      for (let dx = -3; dx <= 3; dx++) {
+        const ring = Math.max(Math.abs(dx), Math.abs(dy));
+        assert.equal(qr.isDark(cx + dx, cy + dy), ring !== 2, `finder pattern at ${cx},${cy}`);
+      }
+    }
+  }
+
+  // Both copies of the format information, around the finders
+  let format = 0;
+  let formatCopy = 0;
+  const first = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  first.forEach(([x, y], i) => {
+    format |= Number(qr.isDark(x, y)) << i;
+  });
+  for (let i = 0; i < 15; i++) {
+    const [x, y] = i < 8 ? [size - 1 - i, 8] : [8, size - 15 + i];
+    formatCopy |= Number(qr.isDark(x, y)) << i;
+  }
+  assert.equal(formatCopy, format);
+  const mask = FORMAT_M.indexOf(format);
+  assert.ok(mask >= 0, "format information for level M");
+  assert.equal(qr.isDark(8, size - 8), true, "dark module");
+
+  if (version >= 7) {
+    let info = 0;
+    for (let i = 0; i < 18; i++) {
+      info |= Number(qr.isDark(size - 11 + (i % 3), Math.floor(i / 3))) << i;
+    }
+    assert.equal(info, VERSION_INFO[version]);
+  }
+
+  // Read the codewords in the zigzag order, undoing the mask
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (const x of [right, right - 1]) {
+        if (!isFunctionModule(version, x, y)) {
+          bits.push(Number(qr.isDark(x, y) !== MASKS[mask](y, x)));
+        }
+      }
+    }
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length && codewords.length < CODEWORDS[version]; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  assert.equal(codewords.length, CODEWORDS[version]);
+
+  // Undo the interleaving. Shorter blocks come first.
+  const numBlocks = BLOCKS_M[version];
+  const eccLength = ECC_PER_BLOCK_M[version];
+  const dataLength = CODEWORDS[version] - numBlocks * eccLength;
+  const shortLength = Math.floor(dataLength / numBlocks);
+  const numLong = dataLength % numBlocks;
+  const blocks = Array.from({ length: numBlocks }, (_, i) => ({
+    data: [] as number[],
+    ecc: [] as number[],
+    length: shortLength + (i >= numBlocks - numLong ? 1 : 0),
+  }));
+  let k = 0;
+  for (let i = 0; i <= shortLength; i++) {
+    for (const block of blocks) {
+      if (i < block.length) {
+        block.data.push(codewords[k++]);
+      }
+    }
+  }
+  for (let i = 0; i < eccLength; i++) {
+    for (const block of blocks) {
+      block.ecc.push(codewords[k++]);
+    }
+  }
+
+  // Every block is a valid Reed-Solomon codeword: all syndromes are zero
+  for (const block of blocks) {
+    for (let i = 0; i < eccLength; i++) {
+      assert.equal(evaluate([...block.data, ...block.ecc], EXP[i]), 0, "Reed-Solomon syndrome");
+    }
+  }
+
+  // Byte mode segment
+  const data = blocks.flatMap((block) => block.data);
+  const stream = data.flatMap((byte) => Array.from({ length: 8 }, (_, i) => (byte >> (7 - i)) & 1));
+  let position = 0;
+  const read = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | stream[position++];
+    }
+    return value;
+  };
+  assert.equal(read(4), 0b0100, "byte mode");
+  const count = read(version <= 9 ? 8 : 16);
+  const bytes = Array.from({ length: count }, () => read(8));
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+describe("QrCode", () => {
+  it("round-trips text through a decoder", () => {
+    for (const text of [
+      "hi",
+      "matter-session-0123456789abcdef",
+      "https://example.com/ümlaut?q=" + "x".repeat(60),
+      "a".repeat(140),
+      "b".repeat(200),
+    ]) {
+      assert.equal(decode(QrCode.encode(text)), text);
+    }
+  });
+
+  it("uses the smallest version that fits", () => {
+    assert.equal(QrCode.encode("a".repeat(14)).version, 1);
+    assert.equal(QrCode.encode("a".repeat(15)).version, 2);
+    assert.equal(QrCode.encode("a".repeat(140)).version, 8);
+  });
+
+  it("refuses data that doesn't fit", () => {
+    assert.throws(() => QrCode.encode("a".repeat(3000)), /too long/);
+  });
+
+  it("treats the quiet zone as light", () => {
+    const qr = QrCode.encode("hi");
+    assert.equal(qr.isDark(-1, 0), false);
+    assert.equal(qr.isDark(0, qr.size), false);
+  });
+});
+
+describe("renderQrForTerminal", () => {
+  it("draws two rows of modules per line, in explicit colors", () => {
+    const qr = QrCode.encode("hi");
+    const lines = renderQrForTerminal(qr, 2).split("\n");
+    assert.equal(lines.length, Math.ceil((qr.size + 4) / 2));
+    for (const line of lines) {
+      assert.equal(line.replace(/\x1b\[\d+m/g, "").length, qr.size + 4);
+      assert.ok(line.endsWith("\x1b[0m"));
+    }
+  });
+});
+
+describe("renderQrAsSvg", () => {
+  it("draws one square per dark module", () => {
+    const qr = QrCode.encode("hi");
+    let dark = 0;
+    for (let y = 0; y < qr.size; y++) {
+      for (let x = 0; x < qr.size; x++) {
+        dark += Number(qr.isDark(x, y));
+      }
+    }
+    const svg = renderQrAsSvg(qr);
+    assert.equal(svg.match(/h1v1h-1z/g)?.length, dark);
+    assert.ok(svg.includes(`viewBox="0 0 ${qr.size + 8} ${qr.size + 8}"`));
+  });
+});
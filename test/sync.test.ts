@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { getMatterConfig } from "../src/config.js";
+import { MemoryLibraryStore } from "../src/library-store.js";
+import { MatterClient, type FeedEntry } from "../src/matter-api.js";
+
+const config = getMatterConfig({ MATTER_API_BASE_URL: "https://matter.test", MATTER_MAX_RETRIES: "0" });
+const FEED_URL = `${config.apiUrl}/library_items/updates_feed/`;
+
+function entry(id: number, title: string): FeedEntry {
+  return {
+    id: `entry-${id}`,
+    recommendations: [],
+    annotations: [],
+    content: { id, url: `https://example.com/${id}`, title, my_annotations: [], tags: [] },
+  } as unknown as FeedEntry;
+}
+
+type FeedHandler = (url: URL) => Response;
+
+function page(entries: FeedEntry[], next: string | null = null): Response {
+  return Response.json({ id: "feed", feed: entries, next, previous: null });
+}
+
+describe("MatterClient library sync", () => {
+  let requests: URL[];
+  let handler: FeedHandler;
+
+  beforeEach(() => {
+    requests = [];
+    mock.method(globalThis, "fetch", async (input: string | URL) => {
+      const url = new URL(String(input));
+      requests.push(url);
+      return handler(url);
+    });
+    // Entries only carry the fields the sync needs
+    mock.method(console, "error", () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function createClient(store: MemoryLibraryStore): MatterClient {
+    return new MatterClient({ accessToken: "access", refreshToken: "refresh" }, undefined, {
+      store,
+      syncIntervalMs: 0,
+      config,
+    });
+  }
+
+  it("merges overlapping updates into the library by content ID", async () => {
+    const store = new MemoryLibraryStore();
+    const client = createClient(store);
+    const startedAt = Date.now();
+
+    handler = (url) =>
+      url.searchParams.get("page") === "2"
+        ? page([entry(3, "Three")])
+        : page([entry(1, "One"), entry(2, "Two")], `${FEED_URL}?page=2`);
+    const first = await client.getLibrary();
+    assert.deepEqual(
+      first.map((e) => e.content.id),
+      [1, 2, 3]
+    );
+    assert.equal(requests[0].searchParams.get("after_timestamp"), "1970-01-01T00:00:00.000000+00:00");
+
+    // The next sync starts a little before this one did, so updates made
+    // while it ran aren't missed
+    const lastSyncedAt = (await store.load())?.lastSyncedAt;
+    assert.ok(lastSyncedAt && Date.parse(lastSyncedAt) < startedAt);
+
+    const changed: number[] = [];
+    client.onLibraryChange((entries) => changed.push(...entries.map((e) => e.content.id)));
+    requests = [];
+    handler = () => page([entry(1, "One"), entry(2, "Two, revised"), entry(4, "Four")]);
+    const second = await client.getLibrary();
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].searchParams.get("after_timestamp"), lastSyncedAt);
+    assert.deepEqual(
+      second.map((e) => [e.content.id, e.content.title]),
+      [
+        [1, "One"],
+        [2, "Two, revised"],
+        [3, "Three"],
+        [4, "Four"],
+      ]
+    );
+    // Updates seen again because of the overlap aren't reported as changes
+    assert.deepEqual(changed, [2, 4]);
+    assert.equal((await store.load())?.entries.length, 4);
+  });
+
+  it("continues a sync that failed part way where it stopped", async () => {
+    const store = new MemoryLibraryStore();
+    const client = createClient(store);
+
+    handler = (url) =>
+      url.searchParams.get("page") === "2"
+        ? new Response("{}", { status: 500 })
+        : page([entry(1, "One"), entry(2, "Two")], `${FEED_URL}?page=2`);
+    await assert.rejects(client.getLibrary());
+
+    // The first page is kept, but nothing after it is known yet
+    const snapshot = await store.load();
+    assert.equal(snapshot?.lastSyncedAt, "1970-01-01T00:00:00.000000+00:00");
+    assert.equal(snapshot?.pending?.nextPage, `${FEED_URL}?page=2`);
+    assert.deepEqual(
+      snapshot?.entries.map((e) => e.content.id),
+      [1, 2]
+    );
+
+    requests = [];
+    handler = () => page([entry(3, "Three")]);
+    const library = await client.getLibrary();
+
+    assert.deepEqual(
+      requests.map((url) => url.searchParams.get("page")),
+      ["2"]
+    );
+    assert.deepEqual(
+      library.map((e) => e.content.id),
+      [1, 2, 3]
+    );
+    const completed = await store.load();
+    assert.equal(completed?.pending, undefined);
+    assert.notEqual(completed?.lastSyncedAt, "1970-01-01T00:00:00.000000+00:00");
+  });
+});